@@ -1,11 +1,35 @@
 import { NgModule } from '@angular/core';
-import { Routes, RouterModule } from '@angular/router';
+import { Routes, RouterModule, UrlSegment, UrlMatchResult } from '@angular/router';
+import { authGuardFn } from '@auth0/auth0-angular';
+import { FoodsComponent } from './foods/foods.component';
+import { UnauthorizedComponent } from './unauthorized/unauthorized.component';
+import { permissionGuard } from './services/permission.guard';
 
 //const routes: Routes = [{ path: 'CreateAccount', loadChildren: () => import('./create-account/create-account.module').then(m => m.CreateAccountModule) }];
 //const routes: Routes = [{ path: 'Login', loadChildren: () => import('./login/login.module').then(m => m.LoginModule) }];
 
+// Matches /foods and /foods/:id with a single route so FoodsComponent is reused
+// (search results stay loaded while the selected food changes)
+export function foodsMatcher(segments: UrlSegment[]): UrlMatchResult | null {
+  if (segments.length === 0 || segments.length > 2 || segments[0].path !== 'foods') {
+    return null;
+  }
+  return {
+    consumed: segments,
+    posParams: segments.length === 2 ? { id: segments[1] } : {}
+  };
+}
+
+const routes: Routes = [
+  { path: '', redirectTo: 'foods', pathMatch: 'full' },
+  // Sign-in required; viewers and up can open the foods page (actions are checked per permission)
+  { matcher: foodsMatcher, component: FoodsComponent, canActivate: [authGuardFn, permissionGuard('read:foods')] },
+  { path: 'unauthorized', component: UnauthorizedComponent, canActivate: [authGuardFn] },
+  { path: '**', redirectTo: 'foods' }
+];
+
 @NgModule({
-  //imports: [RouterModule.forRoot(routes)],
+  imports: [RouterModule.forRoot(routes)],
   exports: [RouterModule]
 })
 export class AppRoutingModule { }
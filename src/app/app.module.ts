@@ -1,11 +1,10 @@
-import { NgModule, CUSTOM_ELEMENTS_SCHEMA } from '@angular/core';
+import { NgModule, CUSTOM_ELEMENTS_SCHEMA, APP_INITIALIZER } from '@angular/core';
 import { BrowserModule } from '@angular/platform-browser';
 import { AppRoutingModule } from './app-routing.module';
 import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
 import { HttpClientModule, HTTP_INTERCEPTORS } from '@angular/common/http';
-import { AuthHttpInterceptor } from '@auth0/auth0-angular';
+import { AuthClientConfig, AuthHttpInterceptor } from '@auth0/auth0-angular';
 import { FormsModule, ReactiveFormsModule } from '@angular/forms';
-import { environment } from '../environments/environment.prod';
 import { FlexLayoutModule } from '@angular/flex-layout';
 
 // Material Imports
@@ -21,21 +20,71 @@ import { MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatIconModule } from '@angular/material/icon';
 import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatSelectModule } from '@angular/material/select';
 
 import { AppComponent } from './app.component';
 import { AuthModule } from '@auth0/auth0-angular'
 import { LoginComponent } from './login/login.component';
 import { FoodsComponent } from './foods/foods.component';
 import { YehApiService } from './services/yeh-api.service';
+import { ApiErrorInterceptor } from './services/api-error.interceptor';
+import { SessionInterceptor } from './services/session.interceptor';
+import { AppConfigService } from './services/app-config.service';
 import { UriListComponent } from './uri-list/uri-list.component';
+import { OcrTrackerComponent } from './ocr-tracker/ocr-tracker.component';
+import { NutritionLabelComponent } from './nutrition-label/nutrition-label.component';
+import { EditOutboxComponent } from './edit-outbox/edit-outbox.component';
 import { ImageUploadComponent } from './image-upload/image-upload.component';
+import { NutritionFactsEditorComponent } from './nutrition-facts-editor/nutrition-facts-editor.component';
+import { BulkEditComponent } from './bulk-edit/bulk-edit.component';
+import { FoodExportComponent } from './food-export/food-export.component';
+import { GlycemicImportComponent } from './glycemic-import/glycemic-import.component';
+import { FoodComparisonComponent } from './food-comparison/food-comparison.component';
+import { MealBuilderComponent } from './meal-builder/meal-builder.component';
+import { GlycemicLoadCheckComponent } from './glycemic-load-check/glycemic-load-check.component';
+import { MetadataHistoryComponent } from './metadata-history/metadata-history.component';
+import { MetadataConflictComponent } from './metadata-conflict/metadata-conflict.component';
+import { UnauthorizedComponent } from './unauthorized/unauthorized.component';
+import { BatchImageUploadComponent } from './batch-image-upload/batch-image-upload.component';
+import { ImageEditorComponent } from './image-editor/image-editor.component';
+
+// Load the deployment config, then configure Auth0 from it before anything uses the API
+export function initializeApp(appConfig: AppConfigService, authConfig: AuthClientConfig): () => Promise<void> {
+  return async () => {
+    const config = await appConfig.load();
+    authConfig.set({
+      domain: config.auth0.domain,
+      clientId: config.auth0.clientId,
+      authorizationParams: {
+        redirect_uri: window.location.origin,
+        audience: config.auth0.audience
+      },
+      httpInterceptor: {
+        allowedList: appConfig.authenticatedUrls
+      }
+    });
+  };
+}
 
 @NgModule({
   declarations: [
     AppComponent,
     LoginComponent,
     FoodsComponent,
-    ImageUploadComponent  // Added ImageUploadComponent
+    ImageUploadComponent,  // Added ImageUploadComponent
+    NutritionFactsEditorComponent,
+    BulkEditComponent,
+    FoodExportComponent,
+    GlycemicImportComponent,
+    FoodComparisonComponent,
+    MealBuilderComponent,
+    GlycemicLoadCheckComponent,
+    MetadataHistoryComponent,
+    MetadataConflictComponent,
+    UnauthorizedComponent,
+    BatchImageUploadComponent,
+    ImageEditorComponent
   ],
   imports: [
     BrowserModule,
@@ -57,23 +106,22 @@ import { ImageUploadComponent } from './image-upload/image-upload.component';
     MatTooltipModule,
     MatIconModule,
     MatCheckboxModule,
+    MatProgressBarModule,
+    MatSelectModule,
     UriListComponent,
-    AuthModule.forRoot({
-      domain: environment.auth0.domain,
-      clientId: environment.auth0.clientId,
-      authorizationParams: {
-        redirect_uri: environment.auth0.redirectUri,
-        audience: 'https://yehapi.cloudcomputingassociates.net'
-      },
-      httpInterceptor: {
-        allowedList: [
-          'https://yehapi.cloudcomputingassociates.net/api/*'
-        ]
-      }
-    })
+    OcrTrackerComponent,
+    NutritionLabelComponent,
+    EditOutboxComponent,
+    // Configured at startup from assets/config.json (see initializeApp)
+    AuthModule.forRoot()
   ],
   providers: [
+    { provide: APP_INITIALIZER, useFactory: initializeApp, deps: [AppConfigService, AuthClientConfig], multi: true },
     YehApiService,
+    // Retries wrap the auth interceptor so every attempt gets a current token
+    { provide: HTTP_INTERCEPTORS, useClass: ApiErrorInterceptor, multi: true },
+    // 401s are refreshed and retried before ApiErrorInterceptor sees them
+    { provide: HTTP_INTERCEPTORS, useClass: SessionInterceptor, multi: true },
     { provide: HTTP_INTERCEPTORS, useClass: AuthHttpInterceptor, multi: true }
   ],
   bootstrap: [AppComponent],
@@ -0,0 +1,269 @@
+import { Component, Output, EventEmitter } from '@angular/core';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Observable, from, of } from 'rxjs';
+import { catchError, filter, finalize, map, mergeMap, tap } from 'rxjs/operators';
+import { YehApiService } from '../services/yeh-api.service';
+import { OcrTrackerService } from '../services/ocr-tracker.service';
+import {
+  BatchImageFile,
+  BatchImageUploadService,
+  BatchUploadTask
+} from '../services/batch-image-upload.service';
+import { Food } from '../models/food.model';
+import { UploadEvent, getErrorMessage } from '../models/api.model';
+
+@Component({
+  selector: 'app-batch-image-upload',
+  templateUrl: './batch-image-upload.component.html',
+  styleUrls: ['./batch-image-upload.component.scss']
+})
+export class BatchImageUploadComponent {
+  @Output() closed = new EventEmitter<void>();
+
+  // Foods looked up concurrently; images are large so fewer uploads run at once
+  readonly LOOKUP_CONCURRENCY = 4;
+  readonly UPLOAD_CONCURRENCY = 3;
+
+  rows: BatchImageFile[] = [];
+  isDragging = false;
+  isReading = false;
+  isLoadingFoods = false;
+  isUploading = false;
+  uploadedCount = 0;
+  totalToUpload = 0;
+
+  constructor(
+    private foodsService: YehApiService,
+    private batchService: BatchImageUploadService,
+    private ocrTracker: OcrTrackerService,
+    private snackBar: MatSnackBar
+  ) {}
+
+  onFilesSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files || []);
+    input.value = '';  // Allow re-selecting the same files
+    this.loadFiles(files);
+  }
+
+  onDragOver(event: DragEvent) {
+    event.preventDefault();
+    this.isDragging = true;
+  }
+
+  onDragLeave(event: DragEvent) {
+    event.preventDefault();
+    this.isDragging = false;
+  }
+
+  async onDrop(event: DragEvent) {
+    event.preventDefault();
+    this.isDragging = false;
+    if (!event.dataTransfer || this.isUploading) {
+      return;
+    }
+
+    this.isReading = true;
+    try {
+      this.loadFiles(await this.batchService.readDroppedFiles(event.dataTransfer));
+    } catch (error: unknown) {
+      this.snackBar.open(`Could not read the dropped files: ${getErrorMessage(error, 'Unknown error')}`, 'Close', { duration: 5000 });
+    } finally {
+      this.isReading = false;
+    }
+  }
+
+  private loadFiles(files: File[]): void {
+    if (files.length === 0 || this.isUploading) {
+      return;
+    }
+
+    this.rows = this.batchService.buildRows(files);
+    this.uploadedCount = 0;
+    this.totalToUpload = 0;
+
+    if (this.rows.length === 0) {
+      this.snackBar.open('No image files found', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.matchFoods();
+  }
+
+  // Review step: look up each food once so the table shows what each file will be attached to
+  private matchFoods(): void {
+    const foodIds = Array.from(new Set(
+      this.rows.filter(row => row.status === 'checking').map(row => row.foodId as number)
+    ));
+    if (foodIds.length === 0) {
+      return;
+    }
+
+    this.isLoadingFoods = true;
+    from(foodIds).pipe(
+      mergeMap(foodId => this.foodsService.getFoodById(foodId).pipe(
+        map(food => ({ foodId, food: food as Food | null, error: undefined as string | undefined })),
+        // Only a 404 means the food doesn't exist - other failures can be looked up again
+        catchError((error: HttpErrorResponse) => of({
+          foodId,
+          food: null as Food | null,
+          error: error.status === 404 ? undefined : getErrorMessage(error, 'Lookup failed')
+        }))
+      ), this.LOOKUP_CONCURRENCY),
+      finalize(() => this.isLoadingFoods = false)
+    ).subscribe(({ foodId, food, error }) =>
+      this.rows.filter(row => row.foodId === foodId).forEach(row => this.batchService.matchFood(row, food, error))
+    );
+  }
+
+  // Look up the foods again for rows whose lookup failed
+  retryLookups(): void {
+    this.rows.filter(row => row.status === 'lookupFailed').forEach(row => {
+      row.status = 'checking';
+      row.error = undefined;
+    });
+    this.matchFoods();
+  }
+
+  // Upload every selected file
+  upload(): void {
+    this.start(this.batchService.buildTasks(this.rows));
+  }
+
+  // Select and upload every failed file again
+  retryFailed(): void {
+    this.rows.filter(row => row.status === 'failed' && row.type !== 'ingredients').forEach(row => row.selected = true);
+    this.upload();
+  }
+
+  // Upload one failed file again (with its ingredients image, for a nutrition label)
+  retry(row: BatchImageFile): void {
+    row.selected = true;
+    this.start(this.batchService.buildTasks(this.rows).filter(task => task.files.includes(row)));
+  }
+
+  private start(tasks: BatchUploadTask[]): void {
+    if (tasks.length === 0 || this.isUploading) {
+      return;
+    }
+
+    this.isUploading = true;
+    this.uploadedCount = 0;
+    this.totalToUpload = tasks.length;
+    tasks.forEach(task => task.files.forEach(row => {
+      row.status = 'queued';
+      row.error = undefined;
+      row.progress = 0;
+    }));
+
+    from(tasks).pipe(
+      mergeMap(task => this.runTask(task), this.UPLOAD_CONCURRENCY),
+      finalize(() => {
+        this.isUploading = false;
+        this.showSummary();
+      })
+    ).subscribe();
+  }
+
+  private runTask(task: BatchUploadTask): Observable<void> {
+    const [image, ingredients] = task.files;
+    task.files.forEach(row => row.status = 'uploading');
+
+    const request: Observable<UploadEvent<{ success: boolean; status?: string }>> = task.type === 'nutrition'
+      ? this.foodsService.uploadNutritionImage(task.foodId, image.file, { ingredientsImage: ingredients?.file })
+      : this.foodsService.uploadProductImage(task.foodId, image.file);
+
+    return request.pipe(
+      tap(event => task.files.forEach(row => row.progress = event.progress)),
+      filter(event => event.response !== null),
+      map(({ response }) => {
+        if (!response?.success) {
+          throw new Error('The image service did not accept the upload');
+        }
+        task.files.forEach(row => {
+          row.status = 'uploaded';
+          row.selected = false;
+        });
+        if (task.type === 'nutrition') {
+          // Track OCR progress until nutrition facts are extracted
+          this.ocrTracker.track(task.foodId, image.food?.description ?? '', response.status);
+        }
+      }),
+      catchError(error => {
+        task.files.forEach(row => {
+          row.status = 'failed';
+          row.error = getErrorMessage(error, 'Upload failed');
+        });
+        return of(undefined);
+      }),
+      finalize(() => this.uploadedCount++)
+    );
+  }
+
+  private showSummary(): void {
+    const failed = this.countByStatus('failed');
+    const uploaded = this.countByStatus('uploaded');
+    this.snackBar.open(
+      failed === 0 ? `Uploaded ${uploaded} images` : `Uploaded ${uploaded} images, ${failed} failed`,
+      'Close',
+      {
+        duration: 5000,
+        horizontalPosition: 'center',
+        verticalPosition: 'top',
+        panelClass: [failed === 0 ? 'info-snackbar' : 'error-snackbar']
+      }
+    );
+  }
+
+  countByStatus(status: string): number {
+    return this.rows.filter(row => row.status === status).length;
+  }
+
+  get selectedCount(): number {
+    return this.batchService.buildTasks(this.rows)
+      .reduce((count, task) => count + task.files.length, 0);
+  }
+
+  get hasErrors(): boolean {
+    return this.rows.some(row => ['invalid', 'notFound'].includes(row.status));
+  }
+
+  // Ingredients images follow their nutrition label's checkbox
+  isSelectable(row: BatchImageFile): boolean {
+    return !this.isUploading && row.type !== 'ingredients' && (row.status === 'ready' || row.status === 'failed');
+  }
+
+  setAllSelected(selected: boolean): void {
+    this.rows.filter(row => this.isSelectable(row)).forEach(row => row.selected = selected);
+  }
+
+  // Leave out files that can't be uploaded (failed lookups stay so they can be retried)
+  removeInvalid(): void {
+    this.rows = this.rows.filter(row => !['invalid', 'notFound'].includes(row.status));
+  }
+
+  getStatusLabel(row: BatchImageFile): string {
+    switch (row.status) {
+      case 'invalid': return row.errors.join('; ');
+      case 'checking': return 'Looking up food...';
+      case 'notFound': return 'Food not found';
+      case 'lookupFailed': return `Lookup failed: ${row.error}`;
+      case 'ready': return row.type === 'ingredients' ? 'Sent with the nutrition label' : 'Ready';
+      case 'queued': return 'Waiting...';
+      case 'uploading': return 'Uploading...';
+      case 'uploaded': return 'Uploaded';
+      case 'failed': return row.error || 'Failed';
+    }
+  }
+
+  formatSize(bytes: number): string {
+    return bytes >= 1024 * 1024
+      ? `${(bytes / 1024 / 1024).toFixed(1)}MB`
+      : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+}
@@ -0,0 +1,222 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { FormControl, Validators } from '@angular/forms';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { HttpErrorResponse } from '@angular/common/http';
+import { from, of } from 'rxjs';
+import { catchError, finalize, map, mergeMap } from 'rxjs/operators';
+import { MetadataHistoryService } from '../services/metadata-history.service';
+import { PermissionService } from '../services/permission.service';
+import { Food, FoodMetadataUpdate } from '../models/food.model';
+import { getErrorMessage } from '../models/api.model';
+import { METADATA_FIELD_LABELS, formatMetadataValue } from '../models/food-metadata';
+
+export type BulkEditStatus = 'pending' | 'saving' | 'success' | 'failed';
+
+// One food in the bulk edit preview/report (food keeps the values before the edit)
+export interface BulkEditItem {
+  food: Food;
+  update: FoodMetadataUpdate;
+  status: BulkEditStatus;
+  error?: string;
+}
+
+@Component({
+  selector: 'app-bulk-edit',
+  templateUrl: './bulk-edit.component.html',
+  styleUrls: ['./bulk-edit.component.scss']
+})
+export class BulkEditComponent {
+  @Input() foods: Food[] = [];
+
+  @Output() foodUpdated = new EventEmitter<Food>();
+  @Output() closed = new EventEmitter<void>();
+
+  // Max PATCH requests in flight at once
+  readonly CONCURRENCY = 4;
+
+  // "Apply" toggles - only checked fields are changed
+  applyYehApprovedControl = new FormControl<boolean>(false);
+  applyGlycemicIndexControl = new FormControl<boolean>(false);
+  applyGlycemicLoadControl = new FormControl<boolean>(false);
+  applyShortDescriptionControl = new FormControl<boolean>(false);
+
+  // Values to apply
+  yehApprovedControl = new FormControl<boolean>(true);
+  glycemicIndexControl = new FormControl<number | null>(null, [Validators.min(0), Validators.max(100)]);
+  glycemicLoadControl = new FormControl<number | null>(null, [Validators.min(0), Validators.max(100)]);
+  shortDescriptionPatternControl = new FormControl<string>('{description}', [Validators.maxLength(200)]);
+
+  // Preview/report rows (set when preview is built)
+  items: BulkEditItem[] = [];
+  isApplying = false;
+
+  constructor(
+    private history: MetadataHistoryService,
+    private snackBar: MatSnackBar,
+    permissions: PermissionService
+  ) {
+    // Only approvers can change YEH Approved
+    if (!permissions.can('approve:foods')) {
+      this.applyYehApprovedControl.disable();
+      this.yehApprovedControl.disable();
+    }
+  }
+
+  /**
+   * Expand a short-description pattern for one food
+   * Supports {description}, {shortDescription} and {id} placeholders
+   */
+  expandPattern(pattern: string, food: Food): string | null {
+    const value = pattern
+      .replace(/\{description\}/g, food.description || '')
+      .replace(/\{shortDescription\}/g, food.shortDescription || '')
+      .replace(/\{id\}/g, String(food.id))
+      .trim()
+      .substring(0, 200);
+    return value === '' ? null : value;
+  }
+
+  hasFieldsToApply(): boolean {
+    return !!(this.applyYehApprovedControl.value ||
+              this.applyGlycemicIndexControl.value ||
+              this.applyGlycemicLoadControl.value ||
+              this.applyShortDescriptionControl.value);
+  }
+
+  isFormValid(): boolean {
+    return this.glycemicIndexControl.valid &&
+           this.glycemicLoadControl.valid &&
+           this.shortDescriptionPatternControl.valid;
+  }
+
+  // Build the update for one food - only fields that differ from its current values
+  private buildUpdate(food: Food): FoodMetadataUpdate {
+    const update: FoodMetadataUpdate = {};
+
+    if (this.applyYehApprovedControl.value) {
+      const approved = this.yehApprovedControl.value ?? false;
+      if (approved !== (food.yehApproved ?? false)) {
+        update.yehApproved = approved;
+      }
+    }
+    if (this.applyGlycemicIndexControl.value) {
+      const gi = this.glycemicIndexControl.value;
+      if (gi !== (food.glycemicIndex ?? null)) {
+        update.glycemicIndex = gi;
+      }
+    }
+    if (this.applyGlycemicLoadControl.value) {
+      const gl = this.glycemicLoadControl.value;
+      if (gl !== (food.glycemicLoad ?? null)) {
+        update.glycemicLoad = gl;
+      }
+    }
+    if (this.applyShortDescriptionControl.value) {
+      const shortDesc = this.expandPattern(this.shortDescriptionPatternControl.value || '', food);
+      if (shortDesc !== (food.shortDescription ?? null)) {
+        update.shortDescription = shortDesc;
+      }
+    }
+
+    return update;
+  }
+
+  // Build the preview of changes for every selected food
+  buildPreview(): void {
+    this.items = this.foods
+      .map(food => ({ food, update: this.buildUpdate(food), status: 'pending' as BulkEditStatus }))
+      .filter(item => Object.keys(item.update).length > 0);
+
+    if (this.items.length === 0) {
+      this.snackBar.open('Selected foods already have these values', 'Close', { duration: 3000 });
+    }
+  }
+
+  clearPreview(): void {
+    this.items = [];
+  }
+
+  // Apply all previewed changes
+  applyAll(): void {
+    this.run(this.items.filter(item => item.status !== 'success'));
+  }
+
+  // Retry only the items that failed
+  retryFailed(): void {
+    this.run(this.items.filter(item => item.status === 'failed'));
+  }
+
+  private run(items: BulkEditItem[]): void {
+    if (items.length === 0 || this.isApplying) {
+      return;
+    }
+
+    this.isApplying = true;
+    items.forEach(item => {
+      item.status = 'pending';
+      item.error = undefined;
+    });
+
+    from(items).pipe(
+      mergeMap(item => {
+        item.status = 'saving';
+        return this.history.updateFoodMetadata(item.food, item.update, 'bulk').pipe(
+          map(updatedFood => ({ item, updatedFood, error: null as HttpErrorResponse | null })),
+          catchError((error: HttpErrorResponse) => of({ item, updatedFood: null as Food | null, error }))
+        );
+      }, this.CONCURRENCY),
+      finalize(() => {
+        this.isApplying = false;
+        this.showSummary();
+      })
+    ).subscribe(({ item, updatedFood, error }) => {
+      if (updatedFood) {
+        item.status = 'success';
+        this.foodUpdated.emit(updatedFood);
+      } else {
+        item.status = 'failed';
+        item.error = getErrorMessage(error, 'Update failed');
+      }
+    });
+  }
+
+  private showSummary(): void {
+    const failed = this.failedCount;
+    const succeeded = this.successCount;
+    const message = failed === 0
+      ? `Updated ${succeeded} foods`
+      : `Updated ${succeeded} foods, ${failed} failed`;
+
+    this.snackBar.open(message, 'Close', {
+      duration: 5000,
+      horizontalPosition: 'center',
+      verticalPosition: 'top',
+      panelClass: [failed === 0 ? 'info-snackbar' : 'error-snackbar']
+    });
+  }
+
+  get successCount(): number {
+    return this.items.filter(item => item.status === 'success').length;
+  }
+
+  get failedCount(): number {
+    return this.items.filter(item => item.status === 'failed').length;
+  }
+
+  get doneCount(): number {
+    return this.successCount + this.failedCount;
+  }
+
+  // Changed fields for a preview row
+  getChanges(item: BulkEditItem): { label: string; from: string; to: string }[] {
+    return (Object.keys(item.update) as (keyof FoodMetadataUpdate)[]).map(key => ({
+      label: METADATA_FIELD_LABELS[key],
+      from: formatMetadataValue(item.food[key]),
+      to: formatMetadataValue(item.update[key])
+    }));
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+}
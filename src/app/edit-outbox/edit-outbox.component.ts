@@ -0,0 +1,66 @@
+import { Component, EventEmitter, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { EditOutboxService, OutboxItem } from '../services/edit-outbox.service';
+import { FoodMetadataUpdate } from '../models/food.model';
+import { METADATA_FIELD_LABELS, formatMetadataValue } from '../models/food-metadata';
+
+@Component({
+  selector: 'app-edit-outbox',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatIconModule,
+    MatButtonModule,
+    MatTooltipModule
+  ],
+  templateUrl: './edit-outbox.component.html',
+  styleUrls: ['./edit-outbox.component.scss']
+})
+export class EditOutboxComponent {
+  @Output() foodOpened = new EventEmitter<number>();
+  @Output() closed = new EventEmitter<void>();
+
+  items$ = this.outbox.items$;
+
+  // Items expanded to show their queued fields
+  expandedIds = new Set<string>();
+
+  constructor(public outbox: EditOutboxService) {}
+
+  toggleExpanded(item: OutboxItem): void {
+    if (this.expandedIds.has(item.id)) {
+      this.expandedIds.delete(item.id);
+    } else {
+      this.expandedIds.add(item.id);
+    }
+  }
+
+  discard(item: OutboxItem): void {
+    if (confirm(`Discard the unsaved change to "${item.description}"?`)) {
+      this.outbox.discard(item.id);
+    }
+  }
+
+  // Queued fields for the inspect view
+  getFields(item: OutboxItem): { label: string; value: string }[] {
+    return (Object.keys(item.update) as (keyof FoodMetadataUpdate)[]).map(key => ({
+      label: METADATA_FIELD_LABELS[key],
+      value: formatMetadataValue(item.update[key], '— (cleared)')
+    }));
+  }
+
+  getStatusLabel(item: OutboxItem): string {
+    switch (item.status) {
+      case 'sending': return 'Sending...';
+      case 'failed': return `Rejected by server: ${item.lastError}`;
+      default: return item.attempts > 0 ? `Waiting for connection (${item.attempts} attempts)` : 'Waiting to sync';
+    }
+  }
+
+  trackById(index: number, item: OutboxItem): string {
+    return item.id;
+  }
+}
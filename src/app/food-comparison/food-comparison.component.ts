@@ -0,0 +1,115 @@
+import { Component, Input, Output, EventEmitter, OnChanges } from '@angular/core';
+import { Food } from '../models/food.model';
+import { NUTRITION_FACT_FIELDS, getServingMultiplier } from '../models/nutrition-fields';
+
+// One row of the comparison table - a value per food plus best/worst column indexes
+interface ComparisonRow {
+  label: string;
+  unit: string;
+  values: (number | string | null)[];
+  best: number[];
+  worst: number[];
+}
+
+@Component({
+  selector: 'app-food-comparison',
+  templateUrl: './food-comparison.component.html',
+  styleUrls: ['./food-comparison.component.scss']
+})
+export class FoodComparisonComponent implements OnChanges {
+  @Input() foods: Food[] = [];
+  @Input() showPerServing = true;
+
+  @Output() closed = new EventEmitter<void>();
+  @Output() foodOpened = new EventEmitter<number>();
+
+  static readonly MIN_FOODS = 2;
+  static readonly MAX_FOODS = 6;
+
+  rows: ComparisonRow[] = [];
+
+  ngOnChanges() {
+    this.buildRows();
+  }
+
+  // Same per-serving/per-100g toggle as FoodsComponent.toggleServingMode
+  toggleServingMode() {
+    this.showPerServing = !this.showPerServing;
+    this.buildRows();
+  }
+
+  private buildRows(): void {
+    const foods = this.foods.slice(0, FoodComparisonComponent.MAX_FOODS);
+    const rows: ComparisonRow[] = [];
+
+    rows.push(this.textRow('YEH Approved', foods.map(f => f.yehApproved ? 'Yes' : 'No')));
+    rows.push(this.rankedRow('GI', '', foods.map(f => f.glycemicIndex ?? null), 'lower'));
+    rows.push(this.rankedRow('Load', '', foods.map(f => f.glycemicLoad ?? null), 'lower'));
+    rows.push(this.textRow('Serving Size', foods.map(f => f.nutritionFacts?.servingSizeHousehold || null)));
+
+    NUTRITION_FACT_FIELDS.forEach(field => {
+      const values = foods.map(food => {
+        const raw = food.nutritionFacts?.[field.key];
+        if (typeof raw !== 'number') {
+          return null;
+        }
+        if (!field.isNutrient) {
+          return raw;
+        }
+        const multiplier = getServingMultiplier(food, this.showPerServing);
+        return field.unit === 'kcal'
+          ? Math.round(raw * multiplier)
+          : Math.round(raw * multiplier * 10) / 10;
+      });
+      rows.push(this.rankedRow(field.label, field.unit, values, field.better));
+    });
+
+    this.rows = rows;
+  }
+
+  private textRow(label: string, values: (string | null)[]): ComparisonRow {
+    return { label, unit: '', values, best: [], worst: [] };
+  }
+
+  // Highlight best and worst values (ties share the highlight; no highlight when all equal)
+  private rankedRow(label: string, unit: string, values: (number | null)[], better?: 'lower' | 'higher'): ComparisonRow {
+    const row: ComparisonRow = { label, unit, values, best: [], worst: [] };
+    const numbers = values.filter((v): v is number => typeof v === 'number');
+    if (!better || numbers.length < 2) {
+      return row;
+    }
+
+    const min = Math.min(...numbers);
+    const max = Math.max(...numbers);
+    if (min === max) {
+      return row;
+    }
+
+    const bestValue = better === 'lower' ? min : max;
+    const worstValue = better === 'lower' ? max : min;
+    values.forEach((value, i) => {
+      if (value === bestValue) {
+        row.best.push(i);
+      } else if (value === worstValue) {
+        row.worst.push(i);
+      }
+    });
+    return row;
+  }
+
+  getServingLabel(food: Food): string {
+    if (!this.showPerServing) {
+      return 'per 100g';
+    }
+    const grams = food.nutritionFacts?.servingSizeG;
+    return grams ? `per ${Math.round(grams)}g serving` : 'per serving';
+  }
+
+  get displayedFoods(): Food[] {
+    return this.foods.slice(0, FoodComparisonComponent.MAX_FOODS);
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+}
@@ -0,0 +1,103 @@
+import { Component, Input, Output, EventEmitter, OnInit } from '@angular/core';
+import { FormControl } from '@angular/forms';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Food } from '../models/food.model';
+import { ExportColumn, ExportFormat, FoodExportService } from '../services/food-export.service';
+
+@Component({
+  selector: 'app-food-export',
+  templateUrl: './food-export.component.html',
+  styleUrls: ['./food-export.component.scss']
+})
+export class FoodExportComponent implements OnInit {
+  @Input() selectedFoods: Food[] = [];
+  @Input() allFoods: Food[] = [];
+  @Input() perServing = true;  // Initial value basis follows the detail view toggle
+
+  @Output() closed = new EventEmitter<void>();
+
+  readonly columns: ExportColumn[] = this.exportService.columns;
+
+  formatControl = new FormControl<ExportFormat>('csv');
+  scopeControl = new FormControl<'selected' | 'all'>('selected');
+  basisControl = new FormControl<'serving' | '100g'>('serving');
+  fileNameControl = new FormControl<string>(`foods-export-${new Date().toISOString().substring(0, 10)}`);
+
+  // Column keys included in the export
+  selectedColumnKeys = new Set<string>(this.columns.map(column => column.key));
+
+  constructor(
+    private exportService: FoodExportService,
+    private snackBar: MatSnackBar
+  ) {}
+
+  ngOnInit() {
+    this.basisControl.setValue(this.perServing ? 'serving' : '100g');
+    if (this.selectedFoods.length === 0) {
+      this.scopeControl.setValue('all');
+    }
+  }
+
+  get foodColumns(): ExportColumn[] {
+    return this.columns.filter(column => column.group === 'food');
+  }
+
+  get nutritionColumns(): ExportColumn[] {
+    return this.columns.filter(column => column.group === 'nutrition');
+  }
+
+  get exportFoodsCount(): number {
+    return this.scopeControl.value === 'all' ? this.allFoods.length : this.selectedFoods.length;
+  }
+
+  isColumnSelected(column: ExportColumn): boolean {
+    return this.selectedColumnKeys.has(column.key);
+  }
+
+  toggleColumn(column: ExportColumn): void {
+    if (this.selectedColumnKeys.has(column.key)) {
+      this.selectedColumnKeys.delete(column.key);
+    } else {
+      this.selectedColumnKeys.add(column.key);
+    }
+  }
+
+  // Select or clear every column in a group
+  setGroup(group: 'food' | 'nutrition', selected: boolean): void {
+    this.columns
+      .filter(column => column.group === group)
+      .forEach(column => selected ? this.selectedColumnKeys.add(column.key) : this.selectedColumnKeys.delete(column.key));
+  }
+
+  export(): void {
+    const foods = this.scopeControl.value === 'all' ? this.allFoods : this.selectedFoods;
+    const columns = this.columns.filter(column => this.selectedColumnKeys.has(column.key));
+
+    if (foods.length === 0) {
+      this.snackBar.open('No foods to export', 'Close', { duration: 3000 });
+      return;
+    }
+    if (columns.length === 0) {
+      this.snackBar.open('Select at least one column', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.exportService.exportFoods(foods, {
+      format: this.formatControl.value ?? 'csv',
+      columns,
+      perServing: this.basisControl.value === 'serving',
+      fileName: this.fileNameControl.value || ''
+    });
+
+    this.snackBar.open(`Exported ${foods.length} foods`, 'Close', {
+      duration: 3000,
+      horizontalPosition: 'center',
+      verticalPosition: 'top',
+      panelClass: ['info-snackbar']
+    });
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+}
@@ -1,9 +1,34 @@
-import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { Component, OnInit, OnDestroy, ChangeDetectorRef } from '@angular/core';
 import { FormControl } from '@angular/forms';
 import { MatSnackBar } from '@angular/material/snack-bar';
 import { YehApiService } from '../services/yeh-api.service';
 import { HttpErrorResponse } from '@angular/common/http';
+import { ActivatedRoute, ActivatedRouteSnapshot, NavigationEnd, Params, Router } from '@angular/router';
+import { Observable, Subscription, merge, of } from 'rxjs';
+import { filter, startWith } from 'rxjs/operators';
 import { Food, FoodMetadataUpdate } from '../models/food.model';
+import { ApiResponseError, FoodSearchResponse, getErrorMessage } from '../models/api.model';
+import { OcrJob, OcrTrackerService } from '../services/ocr-tracker.service';
+import { RecipeService } from '../services/recipe.service';
+import { FoodCacheService } from '../services/food-cache.service';
+import { NetworkStatusService } from '../services/network-status.service';
+import { EditOutboxService } from '../services/edit-outbox.service';
+import { MetadataHistoryService } from '../services/metadata-history.service';
+import { ErrorAnnouncerService } from '../services/error-announcer.service';
+import { PermissionService } from '../services/permission.service';
+import { MetadataConflict, MetadataField, MetadataSnapshot } from '../models/metadata-history.model';
+import { METADATA_FIELD_LABELS } from '../models/food-metadata';
+import {
+  Portion,
+  PortionUnit,
+  describePortion,
+  getPortionMultiplier,
+  getServingGrams,
+  getServingMultiplier
+} from '../models/nutrition-fields';
+import { GlycemicLoadCheck, checkGlycemicLoad } from '../models/glycemic-load';
+import { NutritionIssue, validateNutritionFacts } from '../models/nutrition-validation';
+import { FoodComparisonComponent } from '../food-comparison/food-comparison.component';
 
 interface SimplifiedNutrient {
   label: string;
@@ -11,6 +36,13 @@ interface SimplifiedNutrient {
   unit: string;
 }
 
+// Search state mirrored in the URL: /foods?query=...&limit=...&approved=true
+interface SearchParams {
+  query: string;
+  limit: number;
+  approved: boolean;
+}
+
 interface ImageUploadResponse {
   success: boolean;
   nutritionImageUploaded: boolean;
@@ -24,7 +56,7 @@ interface ImageUploadResponse {
   templateUrl: './foods.component.html',
   styleUrls: ['./foods.component.scss']
 })
-export class FoodsComponent implements OnInit {
+export class FoodsComponent implements OnInit, OnDestroy {
   searchControl = new FormControl('');
   limitControl = new FormControl(50);  // NEW: Default to 50 results
   yehApprovedControl = new FormControl(false);  // YEH Approved checkbox
@@ -39,9 +71,35 @@ export class FoodsComponent implements OnInit {
   private readonly MAX_LIMIT = 200;
 
   isLoading = false;
+  cachedAt: number | null = null;  // Set while showing cached search results (revalidating or offline)
+  isOnline = true;
+  pendingEditCount = 0;  // Metadata edits waiting in the offline outbox
+  isShowingOutbox = false;  // Toggle for the outbox panel
   displayedColumns: string[] = ['label', 'value', 'unit'];
   showingAllNutrients = false;
+  showingLabel = false;  // Toggle for FDA-style Nutrition Facts label
+  showingHistory = false;  // Toggle for metadata change history
+
+  // Portion scaler - custom grams/servings/container amount (overrides showPerServing while set, sticky)
+  portionAmountControl = new FormControl<number | null>(null);
+  portionUnitControl = new FormControl<PortionUnit>('g', { nonNullable: true });
+  portion: Portion | null = null;
   showPerServing = true;  // Toggle for per-serving vs per-100g (default: per serving, sticky)
+  isEditingNutritionFacts = false;  // Toggle for full NutritionFacts editor
+  isBulkEditing = false;  // Toggle for bulk metadata edit panel
+  isExporting = false;  // Toggle for export panel
+  isImporting = false;  // Toggle for GI/GL CSV import panel
+  isBatchUploading = false;  // Toggle for batch image upload panel
+  isComparing = false;  // Toggle for side-by-side comparison of selected foods
+  isBuildingMeal = false;  // Toggle for recipe / meal builder panel
+  isCheckingGlycemicLoad = false;  // Toggle for GL consistency check across results
+
+  // Nutrition data quality issues by food ID (only foods with issues)
+  qualityIssues = new Map<number, NutritionIssue[]>();
+  showOnlyFlagged = false;  // Filter list to foods with quality issues
+
+  // Snapshot of selected foods for the bulk edit/export panels (kept stable for change detection)
+  selectedFoodsSnapshot: Food[] = [];
 
   // Cached nutrient data for the table (recalculated when food or mode changes)
   nutrientTableData: SimplifiedNutrient[] = [];
@@ -53,6 +111,12 @@ export class FoodsComponent implements OnInit {
   yehApprovedMetadataControl = new FormControl<boolean>(false);
   isSavingMetadata = false;
 
+  // What the signed-in user's role allows (the API enforces the same rules)
+  canEdit = false;
+  canApprove = false;
+  canUpload = false;
+  metadataConflict: MetadataConflict | null = null;  // Set when a save was rejected because the food changed on the server
+
   // Track original values to detect changes
   private originalMetadata: { shortDescription: string | null; glycemicIndex: number | null; glycemicLoad: number | null; yehApproved: boolean } = {
     shortDescription: null,
@@ -61,33 +125,172 @@ export class FoodsComponent implements OnInit {
     yehApproved: false
   };
 
+  private subscriptions = new Subscription();
+
+  // Route state: last search executed and food ID from /foods/:id
+  private lastSearchKey: string | null = null;
+  private routeFoodId: number | null = null;
+
   constructor(
     private foodsService: YehApiService,
     private snackBar: MatSnackBar,
-    private cdr: ChangeDetectorRef
+    private cdr: ChangeDetectorRef,
+    private ocrTracker: OcrTrackerService,
+    private recipeService: RecipeService,
+    private foodCache: FoodCacheService,
+    private networkStatus: NetworkStatusService,
+    private outbox: EditOutboxService,
+    private history: MetadataHistoryService,
+    private errors: ErrorAnnouncerService,
+    private permissions: PermissionService,
+    private route: ActivatedRoute,
+    private router: Router
   ) {}
 
   ngOnInit() {
     // Remove automatic API calls on typing
+
+    // Sync search controls and selection with the URL (also handles back/forward)
+    this.subscriptions.add(
+      this.router.events.pipe(
+        filter(event => event instanceof NavigationEnd),
+        startWith(null)
+      ).subscribe(() => this.onRouteChange(this.route.snapshot))
+    );
+
+    // Show new nutrition values as soon as OCR processing updates a tracked food
+    this.subscriptions.add(
+      this.ocrTracker.foodUpdated$.subscribe(food => this.applyUpdatedFood(food))
+    );
+    this.subscriptions.add(
+      this.ocrTracker.viewFood$.subscribe(foodId => this.navigateToFood(foodId))
+    );
+
+    this.subscriptions.add(
+      this.networkStatus.online$.subscribe(online => this.isOnline = online)
+    );
+
+    // Enable editing, approving and uploading only for roles that have them
+    this.subscriptions.add(
+      this.permissions.access$.subscribe(() => this.updateAccess())
+    );
+
+    // Offline edit queue - pending counter and server copies of replayed edits
+    this.subscriptions.add(
+      this.outbox.items$.subscribe(items => this.pendingEditCount = items.length)
+    );
+    this.subscriptions.add(
+      this.outbox.foodSynced$.subscribe(food => this.applyRefreshedFood(food))
+    );
+
+    // Recalculate the table and label whenever the portion changes
+    this.subscriptions.add(
+      merge(this.portionAmountControl.valueChanges, this.portionUnitControl.valueChanges)
+        .subscribe(() => this.updatePortion())
+    );
   }
 
+  ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+  }
+
+  // Search from the controls by navigating to /foods?query=... (route change runs the search)
   performSearch() {
-    const query = this.searchControl.value?.trim() || '';
-    const isYehApproved = this.yehApprovedControl.value;
-    const limit = this.limitControl.value ?? 50;
+    const search: SearchParams = {
+      query: this.searchControl.value?.trim() || '',
+      limit: this.clampLimit(this.limitControl.value),
+      approved: !!this.yehApprovedControl.value
+    };
 
-    // For regular search, require at least 2 characters
-    // For YEH Approved, allow empty query to get all approved foods
-    if (!isYehApproved && query.length < 2) {
+    if (!this.isValidSearch(search)) {
       return;
     }
 
+    // Same search won't trigger a search from the route, so re-run it directly
+    if (this.searchKey(search) === this.lastSearchKey) {
+      if (this.routeFoodId) {
+        this.routeFoodId = null;
+        this.router.navigate(['/foods'], { queryParams: this.toQueryParams(search) });
+      }
+      this.executeSearch(search);
+      return;
+    }
+
+    this.router.navigate(['/foods'], { queryParams: this.toQueryParams(search) });
+  }
+
+  // React to /foods?query=... and /foods/:id
+  private onRouteChange(snapshot: ActivatedRouteSnapshot): void {
+    const id = Number(snapshot.paramMap.get('id'));
+    this.routeFoodId = Number.isInteger(id) && id > 0 ? id : null;
+
+    const search = this.parseSearchParams(snapshot.queryParams);
+    if (search && this.searchKey(search) !== this.lastSearchKey) {
+      this.searchControl.setValue(search.query);
+      this.limitControl.setValue(search.limit);
+      this.yehApprovedControl.setValue(search.approved);
+      this.executeSearch(search);
+    } else if (this.routeFoodId) {
+      this.showFoodById(this.routeFoodId);
+    }
+  }
+
+  // For regular search, require at least 2 characters
+  // For YEH Approved, allow empty query to get all approved foods
+  private isValidSearch(search: SearchParams): boolean {
+    return search.approved || search.query.length >= 2;
+  }
+
+  private parseSearchParams(params: Params): SearchParams | null {
+    const search: SearchParams = {
+      query: (params['query'] || '').trim(),
+      limit: this.clampLimit(Number(params['limit'])),
+      approved: params['approved'] === 'true'
+    };
+    return this.isValidSearch(search) ? search : null;
+  }
+
+  private toQueryParams(search: SearchParams): Params {
+    return {
+      query: search.query || null,
+      limit: search.limit,
+      approved: search.approved ? 'true' : null
+    };
+  }
+
+  private searchKey(search: SearchParams): string {
+    return `${search.query}|${search.limit}|${search.approved}`;
+  }
+
+  private clampLimit(limit: number | null | undefined): number {
+    if (!limit || !Number.isFinite(limit) || limit < 1) {
+      return 50;
+    }
+    return Math.min(Math.floor(limit), this.MAX_LIMIT);
+  }
+
+  private executeSearch(search: SearchParams) {
+    const query = search.query;
+    const isYehApproved = search.approved;
+    const limit = search.limit;
+    const key = this.searchKey(search);
+
+    this.lastSearchKey = key;
     this.isLoading = true;
+    this.cachedAt = null;
+
+    // Show cached results right away; the network request below revalidates them
+    this.foodCache.getSearch(key).subscribe(cached => {
+      if (cached && this.lastSearchKey === key && this.isLoading) {
+        this.cachedAt = cached.cachedAt;
+        this.showSearchResults(cached.foods, 'cache');
+      }
+    });
 
     // Choose API based on YEH Approved checkbox
     // YEH Approved uses /api/foods/search/all/yehapproved endpoint
     // Regular search uses /api/foods/search?query=...
-    let searchObservable;
+    let searchObservable: Observable<FoodSearchResponse>;
     if (isYehApproved) {
       // YEH Approved: get all approved foods, then filter client-side if query provided
       searchObservable = this.foodsService.searchYehApprovedFoods(limit);
@@ -97,17 +300,12 @@ export class FoodsComponent implements OnInit {
 
     searchObservable.subscribe({
       next: (results) => {
-        console.log('RAW API RESPONSE:', results);
-
-        // API returns {count: number, foods: array} - extract the foods array
-        let foodsArray: Food[] = [];
-        if (results && results.foods && Array.isArray(results.foods)) {
-          foodsArray = results.foods;
-        } else if (Array.isArray(results)) {
-          foodsArray = results;
-        } else {
-          foodsArray = [results];
+        // Ignore responses for a search that has since been replaced
+        if (this.lastSearchKey !== key) {
+          return;
         }
+        this.networkStatus.markOnline();
+        let foodsArray = results.foods;
 
         // If YEH Approved is checked and there's a query, filter client-side
         if (isYehApproved && query) {
@@ -117,52 +315,106 @@ export class FoodsComponent implements OnInit {
           );
         }
 
-        this.foods = foodsArray;
-        console.log('foods array:', this.foods);
-        console.log('foods.length:', this.foods.length);
-
-        // Update Result Count to match returned/filtered count
-        const returnedCount = this.foods.length;
-        this.limitControl.setValue(returnedCount);
-
-        // Show snackbar with return count
-        const message = returnedCount === 0
-          ? `No foods found. Count: ${returnedCount}`
-          : `Foods returned: ${returnedCount}`;
-
-        this.snackBar.open(message, '✕', {
-          duration: 10000,
-          horizontalPosition: 'center',
-          verticalPosition: 'top',
-          panelClass: ['info-snackbar']
-        });
-
-        // Auto-select first item
-        if (this.foods.length > 0) {
-          this.selectedIndex = 0;
-          this.selectedFood = this.foods[0];
-          console.log('Selected first food:', this.selectedFood?.description);
-          this.populateMetadataFields(this.selectedFood);
-          this.updateNutrientTableData();
-        } else {
-          this.selectedFood = null;
-          this.selectedIndex = -1;
-          this.clearMetadataFields();
-          this.nutrientTableData = [];
-          console.log('No foods to select');
-        }
-
+        this.foodCache.putSearch(key, foodsArray);
         this.isLoading = false;
+        this.showSearchResults(foodsArray, this.cachedAt !== null ? 'revalidated' : 'network');
+        this.cachedAt = null;
       },
-      error: (error: HttpErrorResponse) => {
+      error: (error: HttpErrorResponse | ApiResponseError) => {
+        if (this.lastSearchKey !== key) {
+          return;
+        }
         this.isLoading = false;
-        this.foods = [];
-        this.selectedFood = null;
-        this.handleError(error, 'Failed to search foods');
+        if (error instanceof HttpErrorResponse && error.status === 0) {
+          this.networkStatus.markOffline();
+        }
+
+        // Keep (or fall back to) cached results when the network fails
+        if (this.cachedAt !== null) {
+          this.showStaleNotice();
+          return;
+        }
+        this.foodCache.getSearch(key).subscribe(cached => {
+          if (this.lastSearchKey !== key) {
+            return;
+          }
+          if (cached) {
+            this.cachedAt = cached.cachedAt;
+            this.showSearchResults(cached.foods, 'cache');
+            this.showStaleNotice();
+          } else {
+            this.foods = [];
+            this.selectedFood = null;
+            this.errors.announce(error, 'Failed to search foods');
+          }
+        });
       }
     });
   }
 
+  /**
+   * Display search results from the network or the offline cache
+   * @param foodsArray - Results to show
+   * @param source - 'cache' (shown while revalidating or offline), 'network', or 'revalidated' (network results replacing cached ones)
+   */
+  private showSearchResults(foodsArray: Food[], source: 'cache' | 'network' | 'revalidated'): void {
+    this.foods = foodsArray;
+    this.syncSelectedFoods();
+    this.updateQualityIssues();
+    console.log('foods array:', this.foods);
+    console.log('foods.length:', this.foods.length);
+
+    // Update Result Count to match returned/filtered count
+    const returnedCount = this.foods.length;
+    this.limitControl.setValue(returnedCount);
+
+    // Show snackbar with return count (the cache indicator covers cached results)
+    if (source === 'network') {
+      const message = returnedCount === 0
+        ? `No foods found. Count: ${returnedCount}`
+        : `Foods returned: ${returnedCount}`;
+
+      this.snackBar.open(message, '✕', {
+        duration: 10000,
+        horizontalPosition: 'center',
+        verticalPosition: 'top',
+        panelClass: ['info-snackbar']
+      });
+    }
+
+    // Keep the food from /foods/:id (or the food already shown from cache), otherwise auto-select first item
+    const keepId = this.routeFoodId ?? (source === 'revalidated' ? this.selectedFood?.id : null);
+    const index = keepId ? this.foods.findIndex(f => f.id === keepId) : -1;
+    if (index >= 0 && this.selectedFood?.id === keepId) {
+      // Same food with fresh data - don't discard unsaved metadata edits
+      this.selectedIndex = index;
+      this.applyRefreshedFood(this.foods[index]);
+    } else if (index >= 0) {
+      this.selectFoodAt(index);
+    } else if (this.routeFoodId && !this.isLoading) {
+      this.showFoodById(this.routeFoodId);
+    } else if (this.foods.length > 0) {
+      this.selectedIndex = 0;
+      this.selectedFood = this.foods[0];
+      console.log('Selected first food:', this.selectedFood?.description);
+      this.populateMetadataFields(this.selectedFood);
+      this.updateNutrientTableData();
+    } else {
+      this.selectedFood = null;
+      this.selectedIndex = -1;
+      this.clearMetadataFields();
+      this.nutrientTableData = [];
+      console.log('No foods to select');
+    }
+  }
+
+  private showStaleNotice(): void {
+    const message = this.networkStatus.isOnline
+      ? 'Could not reach the server. Showing cached results.'
+      : 'You are offline. Showing cached results.';
+    this.errors.announceMessage(message);
+  }
+
   // Set MAX limit
   setMaxLimit(): void {
     this.limitControl.setValue(this.MAX_LIMIT);
@@ -173,9 +425,24 @@ export class FoodsComponent implements OnInit {
     // Optional: auto-search when checkbox is checked
   }
 
-  // NEW: Handle food selection from list
-  onFoodSelected(index: number) {
+  // NEW: Handle food selection from list - navigates to /foods/:id (keeps search params)
+  onFoodSelected(index: number, replaceUrl: boolean = false) {
+    const food = this.foods[index];
+    if (food?.id) {
+      this.navigateToFood(food.id, replaceUrl);
+    }
+  }
+
+  private navigateToFood(foodId: number, replaceUrl: boolean = false): void {
+    this.router.navigate(['/foods', foodId], { queryParamsHandling: 'preserve', replaceUrl });
+  }
+
+  // Show the food at an index in the detail panel
+  private selectFoodAt(index: number) {
     if (index >= 0 && index < this.foods.length) {
+      if (this.foods[index].id !== this.selectedFood?.id) {
+        this.metadataConflict = null;
+      }
       this.selectedIndex = index;
       this.selectedFood = this.foods[index];
       console.log('Selected:', this.selectedFood.description);
@@ -184,6 +451,34 @@ export class FoodsComponent implements OnInit {
     }
   }
 
+  // Metadata fields are read-only without edit:foods; YEH Approved needs approve:foods
+  private updateAccess(): void {
+    this.canEdit = this.permissions.can('edit:foods');
+    this.canApprove = this.permissions.can('approve:foods');
+    this.canUpload = this.permissions.can('upload:images');
+
+    [this.shortDescriptionControl, this.glycemicIndexControl, this.glycemicLoadControl]
+      .forEach(control => this.setControlEnabled(control, this.canEdit));
+    this.setControlEnabled(this.yehApprovedMetadataControl, this.canApprove);
+
+    if (!this.canEdit) {
+      this.isBulkEditing = false;
+      this.isImporting = false;
+      this.isEditingNutritionFacts = false;
+    }
+    if (!this.canUpload) {
+      this.isBatchUploading = false;
+    }
+  }
+
+  private setControlEnabled(control: FormControl, enabled: boolean): void {
+    if (enabled) {
+      control.enable({ emitEvent: false });
+    } else {
+      control.disable({ emitEvent: false });
+    }
+  }
+
   // Populate metadata fields from selected food
   private populateMetadataFields(food: Food): void {
     this.shortDescriptionControl.setValue(food.shortDescription ?? null);
@@ -207,6 +502,7 @@ export class FoodsComponent implements OnInit {
     this.glycemicLoadControl.setValue(null);
     this.yehApprovedMetadataControl.setValue(false);
     this.originalMetadata = { shortDescription: null, glycemicIndex: null, glycemicLoad: null, yehApproved: false };
+    this.metadataConflict = null;
   }
 
   // Check if metadata has been modified
@@ -222,6 +518,23 @@ export class FoodsComponent implements OnInit {
            currentYehApproved !== this.originalMetadata.yehApproved;
   }
 
+  // Compare the Load field with GI × available carbs per serving (uses unsaved form values)
+  getGlycemicLoadCheck(): GlycemicLoadCheck | null {
+    if (!this.selectedFood) {
+      return null;
+    }
+    return checkGlycemicLoad(this.selectedFood, this.glycemicIndexControl.value, this.glycemicLoadControl.value);
+  }
+
+  // One-click fill of the Load field with the computed GL (still needs Save)
+  fillComputedGlycemicLoad(): void {
+    const computed = this.getGlycemicLoadCheck()?.computed;
+    if (computed !== null && computed !== undefined) {
+      this.glycemicLoadControl.setValue(computed);
+      this.glycemicLoadControl.markAsDirty();
+    }
+  }
+
   // Save metadata to backend
   saveMetadata(): void {
     if (!this.selectedFood?.id) {
@@ -257,26 +570,50 @@ export class FoodsComponent implements OnInit {
       return;
     }
 
+    // Queue behind an earlier unsynced edit so changes reach the server in order
+    // (an edit the server rejected as conflicting isn't waited on - this save goes through the conflict check)
+    if (this.outbox.hasPending(this.selectedFood.id)) {
+      this.queueMetadataEdit(this.selectedFood, update);
+      this.outbox.replay();
+      return;
+    }
+
     this.isSavingMetadata = true;
+    const food = this.selectedFood;
+    const original = { ...this.originalMetadata };
+
+    // Without a known version, check the server copy first and save against its version
+    const current$ = food.etag ? of(food) : this.foodsService.getFoodById(food.id);
+    current$.subscribe({
+      next: (current) => {
+        // The copy to save against already has other values than the ones the form was loaded with
+        if (!this.isSameMetadata(this.history.snapshot(current), original)) {
+          this.isSavingMetadata = false;
+          this.showMetadataConflict(current, update, original);
+          return;
+        }
+        this.sendMetadataUpdate(current, update, original);
+      },
+      error: (error: HttpErrorResponse) => this.onMetadataSaveError(food, update, original, error)
+    });
+  }
 
-    this.foodsService.updateFoodMetadata(this.selectedFood.id, update).subscribe({
+  // PATCH the metadata with the food's version as precondition
+  private sendMetadataUpdate(food: Food, update: FoodMetadataUpdate, original: MetadataSnapshot): void {
+    this.isSavingMetadata = true;
+    this.history.updateFoodMetadata(food, update, 'edit').subscribe({
       next: (updatedFood) => {
-        // Update the selected food with response
-        this.selectedFood = updatedFood;
+        this.metadataConflict = null;
+        // This save resolved any queued edit the server rejected as conflicting
+        this.outbox.discardConflicts(updatedFood.id);
 
-        // Update in the foods array too
-        const index = this.foods.findIndex(f => f.id === updatedFood.id);
-        if (index >= 0) {
-          this.foods[index] = updatedFood;
-        }
+        // Update the record in place in foods and selectedFood
+        this.applyUpdatedFood(updatedFood);
 
-        // Update original values to match saved state
-        this.originalMetadata = {
-          shortDescription: updatedFood.shortDescription ?? null,
-          glycemicIndex: updatedFood.glycemicIndex ?? null,
-          glycemicLoad: updatedFood.glycemicLoad ?? null,
-          yehApproved: updatedFood.yehApproved ?? false
-        };
+        // Update form and original values to match saved state
+        if (this.selectedFood?.id === updatedFood.id) {
+          this.populateMetadataFields(updatedFood);
+        }
 
         this.snackBar.open('Metadata saved successfully', 'Close', {
           duration: 3000,
@@ -287,69 +624,130 @@ export class FoodsComponent implements OnInit {
 
         this.isSavingMetadata = false;
       },
-      error: (error: HttpErrorResponse) => {
-        this.isSavingMetadata = false;
-        this.handleError(error, 'Failed to save metadata');
-      }
+      error: (error: HttpErrorResponse) => this.onMetadataSaveError(food, update, original, error)
     });
   }
 
-  // NEW: Handle keyboard navigation in the list
-  onListKeydown(event: KeyboardEvent, foodList: any) {
-    if (event.key === 'ArrowDown') {
-      event.preventDefault();
-      const newIndex = Math.min(this.selectedIndex + 1, this.foods.length - 1);
-      if (newIndex !== this.selectedIndex) {
-        this.onFoodSelected(newIndex);
-      }
-    } else if (event.key === 'ArrowUp') {
-      event.preventDefault();
-      const newIndex = Math.max(this.selectedIndex - 1, 0);
-      if (newIndex !== this.selectedIndex) {
-        this.onFoodSelected(newIndex);
+  private onMetadataSaveError(food: Food, update: FoodMetadataUpdate, original: MetadataSnapshot, error: HttpErrorResponse): void {
+    this.isSavingMetadata = false;
+    if (this.foodsService.isConflict(error)) {
+      // Someone else saved first - load their version and let the editor merge
+      this.foodsService.getFoodById(food.id).subscribe({
+        next: (current) => this.showMetadataConflict(current, update, original),
+        error: (loadError: HttpErrorResponse) => this.errors.announce(loadError, 'Failed to load the latest version of this food')
+      });
+      return;
+    }
+    if (this.outbox.isQueueable(error)) {
+      if (error.status === 0) {
+        this.networkStatus.markOffline();
       }
+      this.queueMetadataEdit(food, update, getErrorMessage(error, 'Update failed'));
+      return;
     }
+    this.errors.announce(error, 'Failed to save metadata');
   }
 
-  // NEW: Truncate description for list display
-  truncateDescription(description: string, maxLength: number = 40): string {
-    if (!description) return '';
-    if (description.length <= maxLength) return description;
-    return description.substring(0, maxLength - 3) + '...';
+  private isSameMetadata(a: MetadataSnapshot, b: MetadataSnapshot): boolean {
+    return (Object.keys(METADATA_FIELD_LABELS) as MetadataField[]).every(field => a[field] === b[field]);
   }
 
-  // Error handler with toast notifications
-  private handleError(error: HttpErrorResponse, context: string) {
-    let message = '';
-    
-    if (error.status === 0) {
-      message = 'Unable to connect to server. Please check your connection.';
-    } else if (error.status === 404) {
-      message = 'Food not found. Try a different search term.';
-    } else if (error.status === 500) {
-      message = 'Server error occurred. Please try again later.';
-    } else if (error.status >= 400 && error.status < 500) {
-      message = error.error?.message || `Request failed: ${error.statusText}`;
-    } else if (error.status >= 500) {
-      message = 'Server error. Our team has been notified.';
-    } else {
-      message = `${context}: ${error.message}`;
+  // Show the conflict panel comparing the editor's values, the loaded values and the server's
+  private showMetadataConflict(current: Food, update: FoodMetadataUpdate, original: MetadataSnapshot): void {
+    this.applyUpdatedFood(current);
+    if (this.selectedFood?.id !== current.id) {
+      return;
+    }
+    this.metadataConflict = {
+      food: current,
+      mine: { ...original, ...update },
+      original,
+      server: this.history.snapshot(current)
+    };
+  }
+
+  /**
+   * Save the values chosen in the conflict panel against the server's current version
+   * @param values - Value to keep for every metadata field
+   */
+  resolveMetadataConflict(values: MetadataSnapshot): void {
+    const conflict = this.metadataConflict;
+    if (!conflict) {
+      return;
+    }
+
+    const update: FoodMetadataUpdate = {};
+    const set = <K extends MetadataField>(field: K) => update[field] = values[field];
+    (Object.keys(METADATA_FIELD_LABELS) as MetadataField[])
+      .filter(field => values[field] !== conflict.server[field])
+      .forEach(set);
+
+    if (Object.keys(update).length === 0) {
+      // Everything resolved to the server values - nothing to send
+      this.metadataConflict = null;
+      this.outbox.discardConflicts(conflict.food.id);
+      this.populateMetadataFields(conflict.food);
+      this.snackBar.open('Kept the server values', 'Close', { duration: 3000 });
+      return;
     }
 
-    this.showErrorToast(message);
-    console.error('API Error:', error);
+    this.sendMetadataUpdate(conflict.food, update, conflict.server);
+  }
+
+  /**
+   * Close the conflict panel and keep editing (saving again shows the conflict again)
+   */
+  cancelMetadataConflict(): void {
+    this.metadataConflict = null;
   }
 
-  // Show error toast with close button
-  private showErrorToast(message: string) {
-    this.snackBar.open(message, 'Close', {
-      duration: 10000,
+  // Keep an edit that couldn't be sent in the outbox and show it locally until it syncs
+  private queueMetadataEdit(food: Food, update: FoodMetadataUpdate, error?: string): void {
+    this.outbox.enqueue(food, update, error);
+
+    const editedFood: Food = { ...food, ...update, yehApproved: update.yehApproved ?? food.yehApproved };
+    this.applyUpdatedFood(editedFood);
+    if (this.selectedFood?.id === editedFood.id) {
+      this.populateMetadataFields(editedFood);
+    }
+
+    this.snackBar.open('Change saved on this device and will sync when the server is reachable', 'Close', {
+      duration: 5000,
       horizontalPosition: 'center',
       verticalPosition: 'top',
-      panelClass: ['error-snackbar']
+      panelClass: ['info-snackbar']
     });
   }
 
+  /**
+   * Open/close the list of unsynced metadata edits
+   */
+  toggleOutbox(): void {
+    this.isShowingOutbox = !this.isShowingOutbox;
+  }
+
+  // NEW: Handle keyboard navigation in the list (skips foods hidden by the flagged filter)
+  onListKeydown(event: KeyboardEvent, foodList: any) {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      let newIndex = this.selectedIndex + step;
+      while (newIndex >= 0 && newIndex < this.foods.length && !this.isFoodVisible(this.foods[newIndex])) {
+        newIndex += step;
+      }
+      if (newIndex >= 0 && newIndex < this.foods.length) {
+        this.onFoodSelected(newIndex, true);
+      }
+    }
+  }
+
+  // NEW: Truncate description for list display
+  truncateDescription(description: string, maxLength: number = 40): string {
+    if (!description) return '';
+    if (description.length <= maxLength) return description;
+    return description.substring(0, maxLength - 3) + '...';
+  }
+
   // Work with nutritionFacts structure from API
   // Data from API is stored per 100g. servingSizeMultiplicand converts to per-serving.
   public getNutrients(food: any): SimplifiedNutrient[] {
@@ -362,14 +760,8 @@ export class FoodsComponent implements OnInit {
 
     // Data is per 100g. When showing per-serving, multiply by servingSizeG/100.
     // Calculate multiplier from servingSizeG if available, otherwise use servingSizeMultiplicand
-    let multiplier = 1;
-    if (this.showPerServing) {
-      if (nf.servingSizeG && nf.servingSizeG > 0) {
-        multiplier = nf.servingSizeG / 100;
-      } else if (food.servingSizeMultiplicand && food.servingSizeMultiplicand !== 1) {
-        multiplier = food.servingSizeMultiplicand;
-      }
-    }
+    // A custom portion (if set) takes precedence
+    const multiplier = this.getDisplayMultiplier(food);
 
     console.log('getNutrients - showPerServing:', this.showPerServing,
       'multiplier:', multiplier,
@@ -417,13 +809,120 @@ export class FoodsComponent implements OnInit {
     this.showingAllNutrients = !this.showingAllNutrients;
   }
 
+  // Toggle the full NutritionFacts editor
+  toggleNutritionFactsEditor() {
+    this.isEditingNutritionFacts = !this.isEditingNutritionFacts;
+  }
+
+  // Handle saved NutritionFacts - update selected food and foods array
+  onNutritionFactsSaved(updatedFood: Food) {
+    this.applyUpdatedFood(updatedFood);
+  }
+
+  // Replace a food in the results (and the detail panel if it is selected)
+  private applyUpdatedFood(updatedFood: Food): void {
+    const index = this.foods.findIndex(f => f.id === updatedFood.id);
+    if (index >= 0) {
+      this.foods[index] = updatedFood;
+      this.syncSelectedFoods();
+      this.updateQualityIssues();
+    }
+    this.foodCache.putFood(updatedFood);
+
+    if (this.selectedFood?.id === updatedFood.id) {
+      this.selectedFood = updatedFood;
+      this.updateNutrientTableData();
+    }
+  }
+
+  // Apply a food changed outside the metadata form, refreshing the form unless it has unsaved edits
+  private applyRefreshedFood(updatedFood: Food): void {
+    const isSelected = this.selectedFood?.id === updatedFood.id;
+    const hadChanges = isSelected && this.hasMetadataChanges();
+
+    this.applyUpdatedFood(updatedFood);
+
+    if (isSelected && !hadChanges) {
+      this.populateMetadataFields(updatedFood);
+    }
+  }
+
+  // Select a food by ID, loading it into the results if it is not already there
+  private showFoodById(foodId: number): void {
+    if (this.selectedFood?.id === foodId) {
+      return;
+    }
+
+    // Results may be on screen (e.g. from cache) while a search is still running
+    const index = this.foods.findIndex(f => f.id === foodId);
+    if (index >= 0) {
+      this.selectFoodAt(index);
+      return;
+    }
+
+    // A running search selects the route's food when it completes
+    if (this.isLoading) {
+      return;
+    }
+
+    this.foodsService.getFoodById(foodId).subscribe({
+      next: (food) => {
+        this.foodCache.putFood(food);
+        this.showLoadedFood(food);
+      },
+      error: (error: HttpErrorResponse) => {
+        if (error.status !== 0) {
+          this.errors.announce(error, 'Failed to load food');
+          return;
+        }
+        // Offline - fall back to a previously loaded copy
+        this.networkStatus.markOffline();
+        this.foodCache.getFood(foodId).subscribe(cached => {
+          if (cached) {
+            this.showLoadedFood(cached.food);
+            this.errors.announceMessage('You are offline. Showing a cached copy of this food.');
+          } else {
+            this.errors.announce(error, 'Failed to load food');
+          }
+        });
+      }
+    });
+  }
+
+  private showLoadedFood(food: Food): void {
+    if (this.foods.some(f => f.id === food.id)) {
+      return;
+    }
+    this.foods = [food, ...this.foods];
+    this.updateQualityIssues();
+    this.selectFoodAt(0);
+  }
+
+  // OCR tracking state for a food in the results list
+  getOcrJob(food: Food): OcrJob | undefined {
+    return food?.id ? this.ocrTracker.getJob(food.id) : undefined;
+  }
+
   // NEW: Toggle between per-serving and per-100g display
   toggleServingMode() {
     this.showPerServing = !this.showPerServing;
+    // Switching modes leaves the custom portion
+    this.portionAmountControl.setValue(null, { emitEvent: false });
+    this.portion = null;
     // Recalculate nutrients for the table
     this.updateNutrientTableData();
   }
 
+  // Show/hide the Nutrition Facts label
+  toggleLabel(): void {
+    this.showingLabel = !this.showingLabel;
+  }
+
+  // Show/hide the metadata change history
+  toggleHistory(): void {
+    this.showingHistory = !this.showingHistory;
+  }
+
   // Update the cached nutrient data for the mat-table
   private updateNutrientTableData(): void {
     // Create a new array reference to trigger Angular change detection
@@ -431,30 +930,62 @@ export class FoodsComponent implements OnInit {
     console.log('updateNutrientTableData called, new data:', this.nutrientTableData);
   }
 
+  // ========================================
+  // PORTION SCALER
+  // ========================================
+
+  // Apply the portion controls (an empty or zero amount returns to per-serving/per-100g)
+  private updatePortion(): void {
+    const amount = this.portionAmountControl.value;
+    this.portion = typeof amount === 'number' && amount > 0
+      ? { amount, unit: this.portionUnitControl.value }
+      : null;
+    this.updateNutrientTableData();
+  }
+
+  clearPortion(): void {
+    this.portionAmountControl.setValue(null);
+  }
+
+  // Fraction of a container needs servingsPerContainer
+  canScaleByContainer(): boolean {
+    return !!this.selectedFood?.nutritionFacts?.servingsPerContainer;
+  }
+
+  // Portion multiplier when a usable portion is set, otherwise the per-serving/per-100g multiplier
+  private getDisplayMultiplier(food: Food | null): number {
+    const portionMultiplier = this.portion ? getPortionMultiplier(food, this.portion) : null;
+    return portionMultiplier ?? getServingMultiplier(food, this.showPerServing);
+  }
+
+  private hasActivePortion(): boolean {
+    return !!this.portion && getPortionMultiplier(this.selectedFood, this.portion) !== null;
+  }
+
   // NEW: Get current display unit for footer
   getDisplayUnit(): string {
-    if (this.showPerServing && this.selectedFood?.nutritionFacts?.servingSizeG) {
-      return `per ${Math.round(this.selectedFood.nutritionFacts.servingSizeG)}g`;
+    if (this.hasActivePortion()) {
+      return `per ${describePortion(this.selectedFood, this.portion!)}`;
+    }
+    if (this.showPerServing) {
+      return `per ${Math.round(getServingGrams(this.selectedFood))}g`;
     }
     return 'per 100g';
   }
 
   // NEW: Get serving count for display
   getServingCount(): string {
-    if (!this.selectedFood?.nutritionFacts?.servingSizeG) return '1';
-    
-    if (this.showPerServing) {
+    if (this.showPerServing && !this.hasActivePortion()) {
       return '1';
-    } else {
-      // Per 100g mode: calculate how many servings in 100g
-      const servingsIn100g = 100 / this.selectedFood.nutritionFacts.servingSizeG;
-      return servingsIn100g.toFixed(1);
     }
+    // Servings in the displayed amount (100g or the custom portion)
+    const servings = this.getDisplayMultiplier(this.selectedFood) * 100 / getServingGrams(this.selectedFood);
+    return servings.toFixed(1);
   }
 
   // NEW: Get label for serving count
   getServingLabel(): string {
-    return this.showPerServing ? 'serving size:' : 'servings:';
+    return this.showPerServing && !this.hasActivePortion() ? 'serving size:' : 'servings:';
   }
 
   // NEW: Calculate nutrient value based on display mode
@@ -462,15 +993,7 @@ export class FoodsComponent implements OnInit {
     if (!this.selectedFood) return value;
 
     // Use same multiplier logic as getNutrients()
-    let multiplier = 1;
-    if (this.showPerServing) {
-      const nf = this.selectedFood.nutritionFacts;
-      if (nf?.servingSizeG && nf.servingSizeG > 0) {
-        multiplier = nf.servingSizeG / 100;
-      } else if (this.selectedFood.servingSizeMultiplicand && this.selectedFood.servingSizeMultiplicand !== 1) {
-        multiplier = this.selectedFood.servingSizeMultiplicand;
-      }
-    }
+    const multiplier = this.getDisplayMultiplier(this.selectedFood);
 
     return Math.round(value * multiplier * 10) / 10;
   }
@@ -481,28 +1004,26 @@ export class FoodsComponent implements OnInit {
   }
 
   // Image upload event handlers
+  // The upload component emits refreshFood right after imagesUploaded, so only refresh once
   onImagesUploaded(response: ImageUploadResponse) {
     console.log('Images uploaded successfully:', response);
-    this.refreshCurrentFood();
   }
 
-  onRefreshFood() {
-    this.refreshCurrentFood();
+  onRefreshFood(foodId: number) {
+    this.refreshFood(foodId);
   }
 
-  private refreshCurrentFood() {
-    const query = this.searchControl.value?.trim();
-    if (query && this.selectedFood) {
-      this.foodsService.refreshFood(query).subscribe({
-        next: (updatedFood) => {
-          this.selectedFood = updatedFood;
-          console.log('Food data refreshed:', updatedFood);
-        },
-        error: (error: HttpErrorResponse) => {
-          this.handleError(error, 'Failed to refresh food data');
-        }
-      });
-    }
+  // Re-fetch one food by ID and update it in place (keeps selection and multi-select state)
+  private refreshFood(foodId: number) {
+    this.foodsService.getFoodById(foodId).subscribe({
+      next: (updatedFood) => {
+        this.applyRefreshedFood(updatedFood);
+        console.log('Food data refreshed:', updatedFood);
+      },
+      error: (error: HttpErrorResponse) => {
+        this.errors.announce(error, 'Failed to refresh food data');
+      }
+    });
   }
 
   // Getters for image upload component
@@ -577,6 +1098,7 @@ export class FoodsComponent implements OnInit {
     }
 
     console.log('Currently selected IDs:', Array.from(this.selectedFoodIds));
+    this.syncSelectedFoods();
   }
 
   /**
@@ -618,18 +1140,178 @@ export class FoodsComponent implements OnInit {
   clearAllSelections(): void {
     this.selectedFoodIds.clear();
     console.log('All selections cleared');
+    this.syncSelectedFoods();
   }
 
   /**
    * Select all foods in the current search results
    */
   selectAllFoods(): void {
-    this.foods.forEach(food => {
+    this.foods.filter(food => this.isFoodVisible(food)).forEach(food => {
       if (food.id) {
         this.selectedFoodIds.add(food.id);
       }
     });
     console.log('Selected all foods. Total:', this.selectedFoodIds.size);
+    this.syncSelectedFoods();
+  }
+
+  // ========================================
+  // DATA QUALITY
+  // ========================================
+
+  // Re-run the nutrition validation rules on the current results
+  private updateQualityIssues(): void {
+    this.qualityIssues = new Map<number, NutritionIssue[]>();
+    this.foods.forEach(food => {
+      const issues = validateNutritionFacts(food);
+      if (issues.length > 0) {
+        this.qualityIssues.set(food.id, issues);
+      }
+    });
+  }
+
+  /**
+   * Get the data quality issues for a food
+   * @param food - Food to check
+   * @returns Failed validation rules (empty if none)
+   */
+  getQualityIssues(food: Food | null): NutritionIssue[] {
+    return (food && this.qualityIssues.get(food.id)) || [];
+  }
+
+  /**
+   * Tooltip for the list warning badge
+   * @param food - Flagged food
+   */
+  getQualityTooltip(food: Food): string {
+    return this.getQualityIssues(food).map(issue => issue.title).join('; ');
+  }
+
+  getFlaggedCount(): number {
+    return this.qualityIssues.size;
+  }
+
+  isFoodVisible(food: Food): boolean {
+    return !this.showOnlyFlagged || this.qualityIssues.has(food.id);
+  }
+
+  /**
+   * Show only foods with data quality issues (selects the first flagged food if the current one is hidden)
+   */
+  toggleShowOnlyFlagged(): void {
+    this.showOnlyFlagged = !this.showOnlyFlagged;
+    if (this.showOnlyFlagged && this.selectedFood && !this.isFoodVisible(this.selectedFood)) {
+      const index = this.foods.findIndex(food => this.isFoodVisible(food));
+      if (index >= 0) {
+        this.onFoodSelected(index, true);
+      }
+    }
+  }
+
+  // ========================================
+  // BULK EDIT
+  // ========================================
+
+  /**
+   * Open/close the bulk metadata edit panel for the selected foods
+   */
+  toggleBulkEdit(): void {
+    this.isBulkEditing = !this.isBulkEditing;
+    this.syncSelectedFoods();
+  }
+
+  /**
+   * Handle a food updated by the bulk edit or CSV import panels
+   * @param updatedFood - Food returned by the PATCH
+   */
+  onFoodUpdated(updatedFood: Food): void {
+    this.applyRefreshedFood(updatedFood);
+  }
+
+  private syncSelectedFoods(): void {
+    this.selectedFoodsSnapshot = this.getSelectedFoods();
+  }
+
+  /**
+   * Check if the selection can be compared (2 to 6 foods)
+   * @returns true when the compare view can open
+   */
+  canCompare(): boolean {
+    const count = this.selectedFoodsSnapshot.length;
+    return count >= FoodComparisonComponent.MIN_FOODS && count <= FoodComparisonComponent.MAX_FOODS;
+  }
+
+  /**
+   * Open/close the side-by-side comparison of selected foods
+   */
+  toggleCompare(): void {
+    this.isComparing = !this.isComparing;
+    this.syncSelectedFoods();
+  }
+
+  /**
+   * Open a food from one of the panels (comparison, GL check, outbox, meal builder) in the detail panel
+   * @param foodId - Food to show
+   */
+  onFoodOpened(foodId: number): void {
+    this.navigateToFood(foodId);
+  }
+
+  /**
+   * Open/close the recipe / meal builder panel
+   */
+  toggleMealBuilder(): void {
+    this.isBuildingMeal = !this.isBuildingMeal;
+  }
+
+  /**
+   * Add a food to the current recipe (one serving, or 100g) and open the meal builder
+   * @param food - Food to add
+   */
+  addToMeal(food: Food | null): void {
+    if (!food) {
+      return;
+    }
+    this.recipeService.addFood(food);
+    this.isBuildingMeal = true;
+  }
+
+  /**
+   * Add all multi-selected foods to the current recipe
+   */
+  addSelectedToMeal(): void {
+    this.getSelectedFoods().forEach(food => this.recipeService.addFood(food));
+    this.isBuildingMeal = true;
+  }
+
+  /**
+   * Open/close the GL consistency check for the whole result set
+   */
+  toggleGlycemicLoadCheck(): void {
+    this.isCheckingGlycemicLoad = !this.isCheckingGlycemicLoad;
+  }
+
+  /**
+   * Open/close the GI/GL CSV import panel
+   */
+  toggleImport(): void {
+    this.isImporting = !this.isImporting;
+  }
+
+  /**
+   * Open/close the batch image upload panel (many foods' images from a folder)
+   */
+  toggleBatchUpload(): void {
+    this.isBatchUploading = !this.isBatchUploading;
+  }
+
+  /**
+   * Open/close the export panel (selected foods or whole result set)
+   */
+  toggleExport(): void {
+    this.isExporting = !this.isExporting;
+    this.syncSelectedFoods();
   }
 
   /**
@@ -662,7 +1344,7 @@ export class FoodsComponent implements OnInit {
         this.clearAllSelections();
       },
       error: (error) => {
-        this.handleError(error, 'Failed to save selected foods');
+        this.errors.announce(error, 'Failed to save selected foods');
       }
     });
     */
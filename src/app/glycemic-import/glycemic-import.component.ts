@@ -0,0 +1,234 @@
+import { Component, Output, EventEmitter } from '@angular/core';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { HttpErrorResponse } from '@angular/common/http';
+import { from, forkJoin, of } from 'rxjs';
+import { catchError, concatMap, finalize, map, mergeMap } from 'rxjs/operators';
+import { YehApiService } from '../services/yeh-api.service';
+import { MetadataHistoryService } from '../services/metadata-history.service';
+import { PermissionService } from '../services/permission.service';
+import { FoodExportService } from '../services/food-export.service';
+import { GlycemicImportService, ImportRow } from '../services/glycemic-import.service';
+import { Food, FoodMetadataUpdate } from '../models/food.model';
+import { getErrorMessage } from '../models/api.model';
+import { METADATA_FIELD_LABELS, formatMetadataValue } from '../models/food-metadata';
+
+@Component({
+  selector: 'app-glycemic-import',
+  templateUrl: './glycemic-import.component.html',
+  styleUrls: ['./glycemic-import.component.scss']
+})
+export class GlycemicImportComponent {
+  @Output() foodUpdated = new EventEmitter<Food>();
+  @Output() closed = new EventEmitter<void>();
+
+  // Foods fetched concurrently for the diff; updates sent in sequential batches
+  readonly LOOKUP_CONCURRENCY = 4;
+  readonly BATCH_SIZE = 10;
+
+  fileName = '';
+  rows: ImportRow[] = [];
+  isLoadingDiff = false;
+  isApplying = false;
+  appliedCount = 0;
+  totalToApply = 0;
+
+  constructor(
+    private foodsService: YehApiService,
+    private history: MetadataHistoryService,
+    private importService: GlycemicImportService,
+    private exportService: FoodExportService,
+    private permissions: PermissionService,
+    private snackBar: MatSnackBar
+  ) {}
+
+  async onFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';  // Allow re-selecting the same file
+    if (!file) {
+      return;
+    }
+
+    this.fileName = file.name;
+    this.rows = [];
+    this.appliedCount = 0;
+    this.totalToApply = 0;
+
+    try {
+      this.rows = this.importService.parseImport(await file.text(), this.permissions.can('approve:foods'));
+    } catch (error: unknown) {
+      this.snackBar.open(`Import failed: ${getErrorMessage(error, 'Could not read file')}`, 'Close', { duration: 5000 });
+      return;
+    }
+
+    if (this.rows.length === 0) {
+      this.snackBar.open('No data rows found in file', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.loadDiff();
+  }
+
+  // Dry run: fetch current values for every valid row and compute the diff
+  private loadDiff(rowsToCheck: ImportRow[] = this.rows.filter(row => row.status === 'ready' && row.foodId !== null)): void {
+    if (rowsToCheck.length === 0) {
+      return;
+    }
+
+    this.isLoadingDiff = true;
+    from(rowsToCheck).pipe(
+      mergeMap(row => this.foodsService.getFoodById(row.foodId as number).pipe(
+        map(food => ({ row, food: food as Food | null, error: undefined as string | undefined })),
+        // Only a 404 means the food doesn't exist - other failures can be looked up again
+        catchError((error: HttpErrorResponse) => of({
+          row,
+          food: null as Food | null,
+          error: error.status === 404 ? undefined : getErrorMessage(error, 'Lookup failed')
+        }))
+      ), this.LOOKUP_CONCURRENCY),
+      finalize(() => this.isLoadingDiff = false)
+    ).subscribe(({ row, food, error }) => this.importService.diffRow(row, food, error));
+  }
+
+  // Look up the current values again for rows whose lookup failed
+  retryLookups(): void {
+    const rowsToCheck = this.rows.filter(row => row.status === 'lookupFailed');
+    rowsToCheck.forEach(row => {
+      row.status = 'ready';
+      row.error = undefined;
+    });
+    this.loadDiff(rowsToCheck);
+  }
+
+  // Apply confirmed rows through updateFoodMetadata in batches
+  apply(): void {
+    const rowsToApply = this.rows.filter(row => row.selected && (row.status === 'ready' || row.status === 'failed'));
+    if (rowsToApply.length === 0 || this.isApplying) {
+      return;
+    }
+
+    const batches: ImportRow[][] = [];
+    for (let i = 0; i < rowsToApply.length; i += this.BATCH_SIZE) {
+      batches.push(rowsToApply.slice(i, i + this.BATCH_SIZE));
+    }
+
+    this.isApplying = true;
+    this.appliedCount = 0;
+    this.totalToApply = rowsToApply.length;
+
+    from(batches).pipe(
+      concatMap(batch => {
+        batch.forEach(row => row.status = 'applying');
+        return forkJoin(batch.map(row => this.applyRow(row)));
+      }),
+      finalize(() => {
+        this.isApplying = false;
+        this.showSummary();
+      })
+    ).subscribe();
+  }
+
+  private applyRow(row: ImportRow) {
+    return this.history.updateFoodMetadata(row.food as Food, row.update, 'import').pipe(
+      map(updatedFood => {
+        row.status = 'applied';
+        row.selected = false;
+        row.error = undefined;
+        this.foodUpdated.emit(updatedFood);
+      }),
+      catchError((error: HttpErrorResponse) => {
+        row.status = 'failed';
+        row.error = getErrorMessage(error, 'Update failed');
+        return of(undefined);
+      }),
+      finalize(() => this.appliedCount++)
+    );
+  }
+
+  private showSummary(): void {
+    const failed = this.countByStatus('failed');
+    const applied = this.countByStatus('applied');
+    this.snackBar.open(
+      failed === 0 ? `Imported ${applied} foods` : `Imported ${applied} foods, ${failed} failed`,
+      'Close',
+      {
+        duration: 5000,
+        horizontalPosition: 'center',
+        verticalPosition: 'top',
+        panelClass: [failed === 0 ? 'info-snackbar' : 'error-snackbar']
+      }
+    );
+  }
+
+  // Download invalid, not-found and failed rows with the reason for each
+  downloadErrorReport(): void {
+    const errorRows = this.rows.filter(row => ['invalid', 'notFound', 'lookupFailed', 'failed'].includes(row.status));
+    if (errorRows.length === 0) {
+      return;
+    }
+
+    const columns = Object.keys(errorRows[0].raw);
+    const csv = this.exportService.toCsv(
+      ['line', ...columns, 'status', 'error'],
+      errorRows.map(row => [
+        row.line,
+        ...columns.map(column => row.raw[column]),
+        row.status,
+        row.error || row.errors.join('; ')
+      ])
+    );
+    const base = this.fileName.replace(/\.csv$/i, '') || 'import';
+    this.exportService.download('\uFEFF' + csv, 'text/csv;charset=utf-8', `${base}-errors.csv`);
+  }
+
+  countByStatus(status: string): number {
+    return this.rows.filter(row => row.status === status).length;
+  }
+
+  get selectedCount(): number {
+    return this.rows.filter(row => row.selected).length;
+  }
+
+  // yehApproved values were left out because the user can't approve foods
+  get hasSkippedApproval(): boolean {
+    return this.rows.some(row => row.skipped?.includes('yehApproved'));
+  }
+
+  get hasErrors(): boolean {
+    return this.rows.some(row => ['invalid', 'notFound', 'lookupFailed', 'failed'].includes(row.status));
+  }
+
+  isSelectable(row: ImportRow): boolean {
+    return !this.isApplying && (row.status === 'ready' || row.status === 'failed');
+  }
+
+  setAllSelected(selected: boolean): void {
+    this.rows.filter(row => this.isSelectable(row)).forEach(row => row.selected = selected);
+  }
+
+  // Changed fields for the diff column
+  getChanges(row: ImportRow): { label: string; from: string; to: string }[] {
+    return (Object.keys(row.update) as (keyof FoodMetadataUpdate)[]).map(key => ({
+      label: METADATA_FIELD_LABELS[key],
+      from: formatMetadataValue(row.food ? row.food[key] : undefined),
+      to: formatMetadataValue(row.update[key])
+    }));
+  }
+
+  getStatusLabel(row: ImportRow): string {
+    switch (row.status) {
+      case 'invalid': return row.errors.join('; ');
+      case 'notFound': return 'Food not found';
+      case 'lookupFailed': return `Lookup failed: ${row.error}`;
+      case 'unchanged': return 'No changes';
+      case 'ready': return 'Ready';
+      case 'applying': return 'Saving...';
+      case 'applied': return 'Applied';
+      case 'failed': return row.error || 'Failed';
+    }
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+}
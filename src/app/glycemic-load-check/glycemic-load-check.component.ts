@@ -0,0 +1,150 @@
+import { Component, Input, Output, EventEmitter, OnChanges } from '@angular/core';
+import { FormControl, Validators } from '@angular/forms';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { HttpErrorResponse } from '@angular/common/http';
+import { from, of } from 'rxjs';
+import { catchError, finalize, map, mergeMap } from 'rxjs/operators';
+import { MetadataHistoryService } from '../services/metadata-history.service';
+import { PermissionService } from '../services/permission.service';
+import { Food } from '../models/food.model';
+import { getErrorMessage } from '../models/api.model';
+import { GLYCEMIC_LOAD_TOLERANCE, GlycemicLoadCheck, checkGlycemicLoad } from '../models/glycemic-load';
+
+export type GlycemicLoadFixStatus = 'pending' | 'saving' | 'success' | 'failed';
+
+// One food whose stored GL is missing or doesn't match GI and carbs
+export interface GlycemicLoadCheckItem {
+  food: Food;
+  check: GlycemicLoadCheck;
+  selected: boolean;
+  status?: GlycemicLoadFixStatus;
+  error?: string;
+}
+
+@Component({
+  selector: 'app-glycemic-load-check',
+  templateUrl: './glycemic-load-check.component.html',
+  styleUrls: ['./glycemic-load-check.component.scss']
+})
+export class GlycemicLoadCheckComponent implements OnChanges {
+  @Input() foods: Food[] = [];
+
+  @Output() foodUpdated = new EventEmitter<Food>();
+  @Output() foodOpened = new EventEmitter<number>();
+  @Output() closed = new EventEmitter<void>();
+
+  // Max PATCH requests in flight at once
+  readonly CONCURRENCY = 4;
+
+  toleranceControl = new FormControl<number>(GLYCEMIC_LOAD_TOLERANCE, [Validators.min(0), Validators.max(100)]);
+  includeMissingControl = new FormControl<boolean>(true);
+
+  items: GlycemicLoadCheckItem[] = [];
+  okCount = 0;
+  unavailableCount = 0;
+  isApplying = false;
+
+  constructor(
+    private history: MetadataHistoryService,
+    private snackBar: MatSnackBar,
+    public permissions: PermissionService
+  ) {}
+
+  ngOnChanges() {
+    if (!this.isApplying) {
+      this.runCheck();
+    }
+  }
+
+  /**
+   * Check every food in the result set with the current tolerance
+   * Keeps mismatches (and foods with GI but no GL when includeMissing is on)
+   */
+  runCheck(): void {
+    const tolerance = this.toleranceControl.valid ? this.toleranceControl.value ?? GLYCEMIC_LOAD_TOLERANCE : GLYCEMIC_LOAD_TOLERANCE;
+    const includeMissing = this.includeMissingControl.value ?? true;
+
+    this.okCount = 0;
+    this.unavailableCount = 0;
+    this.items = [];
+    this.foods.forEach(food => {
+      const check = checkGlycemicLoad(food, food.glycemicIndex, food.glycemicLoad, tolerance);
+      if (check.status === 'ok') {
+        this.okCount++;
+      } else if (check.status === 'unavailable') {
+        this.unavailableCount++;
+      } else if (check.status === 'mismatch' || includeMissing) {
+        this.items.push({ food, check, selected: true });
+      }
+    });
+  }
+
+  get selectedCount(): number {
+    return this.items.filter(item => item.selected && item.status !== 'success').length;
+  }
+
+  get failedCount(): number {
+    return this.items.filter(item => item.status === 'failed').length;
+  }
+
+  setAllSelected(selected: boolean): void {
+    this.items.forEach(item => item.selected = selected && item.status !== 'success');
+  }
+
+  // Fill GL with the computed value for the selected foods
+  fixSelected(): void {
+    const items = this.items.filter(item => item.selected && item.status !== 'success');
+    if (items.length === 0 || this.isApplying) {
+      return;
+    }
+
+    this.isApplying = true;
+    items.forEach(item => {
+      item.status = 'pending';
+      item.error = undefined;
+    });
+
+    from(items).pipe(
+      mergeMap(item => {
+        item.status = 'saving';
+        return this.history.updateFoodMetadata(item.food, { glycemicLoad: item.check.computed }, 'glCheck').pipe(
+          map(updatedFood => ({ item, updatedFood, error: null as HttpErrorResponse | null })),
+          catchError((error: HttpErrorResponse) => of({ item, updatedFood: null as Food | null, error }))
+        );
+      }, this.CONCURRENCY),
+      finalize(() => {
+        this.isApplying = false;
+        this.showSummary(items);
+      })
+    ).subscribe(({ item, updatedFood, error }) => {
+      if (updatedFood) {
+        item.status = 'success';
+        item.selected = false;
+        item.food = updatedFood;
+        this.foodUpdated.emit(updatedFood);
+      } else {
+        item.status = 'failed';
+        item.error = getErrorMessage(error, 'Update failed');
+      }
+    });
+  }
+
+  private showSummary(items: GlycemicLoadCheckItem[]): void {
+    const failed = items.filter(item => item.status === 'failed').length;
+    const succeeded = items.length - failed;
+    const message = failed === 0
+      ? `Filled computed load for ${succeeded} foods`
+      : `Filled computed load for ${succeeded} foods, ${failed} failed`;
+
+    this.snackBar.open(message, 'Close', {
+      duration: 5000,
+      horizontalPosition: 'center',
+      verticalPosition: 'top',
+      panelClass: [failed === 0 ? 'info-snackbar' : 'error-snackbar']
+    });
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+}
@@ -0,0 +1,272 @@
+import {
+  Component, Input, Output, EventEmitter, OnChanges, OnDestroy, ViewChild, ElementRef
+} from '@angular/core';
+import { Subject, Subscription, from, of } from 'rxjs';
+import { catchError, debounceTime, switchMap } from 'rxjs/operators';
+import {
+  CropRect,
+  EditableImage,
+  ImageEditService,
+  ImageEdits,
+  MAX_STRAIGHTEN_DEGREES,
+  NO_EDITS
+} from '../services/image-edit.service';
+
+// Crops smaller than this (fraction of either side) are treated as a click, not a drag
+const MIN_CROP = 0.02;
+
+@Component({
+  selector: 'app-image-editor',
+  templateUrl: './image-editor.component.html',
+  styleUrls: ['./image-editor.component.scss']
+})
+export class ImageEditorComponent implements OnChanges, OnDestroy {
+  @Input() file: File | null = null;
+  @Input() title = 'Edit Image';
+  // Upload limit - the result must fit under it
+  @Input() maxBytes = 10 * 1024 * 1024;
+
+  @Output() applied = new EventEmitter<File>();
+  @Output() cancelled = new EventEmitter<void>();
+
+  @ViewChild('workingCanvas') workingCanvas?: ElementRef<HTMLCanvasElement>;
+
+  readonly MAX_STRAIGHTEN = MAX_STRAIGHTEN_DEGREES;
+  readonly TARGET_SIZES = [
+    { label: '1 MB', bytes: 1024 * 1024 },
+    { label: '2 MB', bytes: 2 * 1024 * 1024 },
+    { label: '4 MB', bytes: 4 * 1024 * 1024 }
+  ];
+  readonly MAX_DIMENSIONS = [1600, 2400, 3200];
+  // Longest side of the on-screen crop canvas
+  private readonly WORKING_PREVIEW_SIZE = 640;
+
+  image: EditableImage | null = null;
+  edits: ImageEdits = { ...NO_EDITS };
+  targetBytes = 2 * 1024 * 1024;
+  maxDimension = 2400;
+
+  isLoading = false;
+  isProcessing = false;
+  loadError: string | null = null;
+
+  // Before/after previews (object URLs)
+  beforeUrl: string | null = null;
+  afterUrl: string | null = null;
+  result: File | null = null;
+  resultSize: { width: number; height: number } | null = null;
+
+  // Crop being dragged on the working canvas
+  dragCrop: CropRect | null = null;
+  private dragStart: { x: number; y: number } | null = null;
+
+  private renderRequests = new Subject<void>();
+  private subscription: Subscription;
+
+  constructor(private imageEdit: ImageEditService) {
+    // Re-encode after edits settle - rendering a full-size photo takes a moment
+    this.subscription = this.renderRequests.pipe(
+      debounceTime(300),
+      switchMap(() => {
+        const image = this.image;
+        if (!image || !this.file) {
+          return of(null);
+        }
+        this.isProcessing = true;
+        const options = { maxDimension: this.maxDimension, targetBytes: this.targetBytes };
+        return from(this.imageEdit.render(image, this.edits, options, this.file.name)).pipe(
+          catchError(error => {
+            console.error('Image processing failed:', error);
+            return of(null);
+          })
+        );
+      })
+    ).subscribe(file => this.showResult(file));
+  }
+
+  async ngOnChanges() {
+    this.reset();
+    if (!this.file) {
+      return;
+    }
+
+    this.beforeUrl = URL.createObjectURL(this.file);
+    this.isLoading = true;
+    try {
+      this.image = await this.imageEdit.load(this.file);
+      // Wait a tick so the canvas is rendered once isLoading clears
+      this.isLoading = false;
+      setTimeout(() => this.update());
+    } catch (error) {
+      console.error('Could not open image:', error);
+      this.isLoading = false;
+      this.loadError = 'This image format can\'t be edited in the browser';
+    }
+  }
+
+  ngOnDestroy() {
+    this.subscription.unsubscribe();
+    this.reset();
+  }
+
+  private reset(): void {
+    this.image?.bitmap.close();
+    this.image = null;
+    this.edits = { ...NO_EDITS };
+    this.loadError = null;
+    this.revoke(this.beforeUrl);
+    this.beforeUrl = null;
+    this.showResult(null);
+  }
+
+  // Redraw the crop canvas now and queue a re-encode
+  update(): void {
+    const canvas = this.workingCanvas?.nativeElement;
+    if (!this.image || !canvas) {
+      return;
+    }
+    this.imageEdit.draw(canvas, this.image, { ...this.edits, crop: null }, this.WORKING_PREVIEW_SIZE);
+    this.renderRequests.next();
+  }
+
+  rotate(quarterTurns: number): void {
+    this.edits = {
+      ...this.edits,
+      quarterTurns: (this.edits.quarterTurns + quarterTurns + 4) % 4,
+      // The old crop doesn't line up with the turned image
+      crop: null
+    };
+    this.update();
+  }
+
+  onStraightenChange(value: number | string): void {
+    this.edits = { ...this.edits, straighten: Number(value), crop: null };
+    this.update();
+  }
+
+  resetEdits(): void {
+    this.edits = { ...NO_EDITS };
+    this.update();
+  }
+
+  clearCrop(): void {
+    this.edits = { ...this.edits, crop: null };
+    this.renderRequests.next();
+  }
+
+  onOutputOptionsChange(): void {
+    this.renderRequests.next();
+  }
+
+  // ========================================
+  // CROP (drag a rectangle on the working canvas)
+  // ========================================
+
+  onCropStart(event: PointerEvent): void {
+    if (!this.image) {
+      return;
+    }
+    (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
+    this.dragStart = this.toFraction(event);
+    this.dragCrop = { ...this.dragStart, width: 0, height: 0 };
+  }
+
+  onCropMove(event: PointerEvent): void {
+    if (!this.dragStart) {
+      return;
+    }
+    const point = this.toFraction(event);
+    this.dragCrop = {
+      x: Math.min(this.dragStart.x, point.x),
+      y: Math.min(this.dragStart.y, point.y),
+      width: Math.abs(point.x - this.dragStart.x),
+      height: Math.abs(point.y - this.dragStart.y)
+    };
+  }
+
+  onCropEnd(): void {
+    if (!this.dragStart) {
+      return;
+    }
+    const crop = this.dragCrop;
+    this.dragStart = null;
+    this.dragCrop = null;
+    if (crop && crop.width >= MIN_CROP && crop.height >= MIN_CROP) {
+      this.edits = { ...this.edits, crop };
+      this.renderRequests.next();
+    }
+  }
+
+  // Pointer position as a fraction of the crop canvas, clamped to its edges
+  private toFraction(event: PointerEvent): { x: number; y: number } {
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height)
+    };
+  }
+
+  // Crop rectangle position for the overlay (percentages)
+  getCropStyle(crop: CropRect): { [key: string]: string } {
+    return {
+      left: `${crop.x * 100}%`,
+      top: `${crop.y * 100}%`,
+      width: `${crop.width * 100}%`,
+      height: `${crop.height * 100}%`
+    };
+  }
+
+  // ========================================
+  // RESULT
+  // ========================================
+
+  private showResult(file: File | null): void {
+    this.isProcessing = false;
+    this.revoke(this.afterUrl);
+    this.result = file;
+    this.afterUrl = file ? URL.createObjectURL(file) : null;
+    this.resultSize = null;
+  }
+
+  onAfterLoaded(event: Event): void {
+    const img = event.target as HTMLImageElement;
+    this.resultSize = { width: img.naturalWidth, height: img.naturalHeight };
+  }
+
+  get orientationNote(): string | null {
+    switch (this.image?.orientation) {
+      case 2: case 4: case 5: case 7: return 'Camera orientation applied (mirrored photo)';
+      case 3: return 'Camera orientation applied (turned 180°)';
+      case 6: return 'Camera orientation applied (turned 90° clockwise)';
+      case 8: return 'Camera orientation applied (turned 90° counter-clockwise)';
+      default: return null;
+    }
+  }
+
+  get isTooLarge(): boolean {
+    return !!this.result && this.result.size > this.maxBytes;
+  }
+
+  apply(): void {
+    if (this.result && !this.isTooLarge) {
+      this.applied.emit(this.result);
+    }
+  }
+
+  cancel(): void {
+    this.cancelled.emit();
+  }
+
+  formatBytes(bytes: number): string {
+    return bytes >= 1024 * 1024
+      ? `${(bytes / 1024 / 1024).toFixed(1)}MB`
+      : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+  }
+
+  private revoke(url: string | null): void {
+    if (url) {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
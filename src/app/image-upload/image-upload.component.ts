@@ -1,6 +1,12 @@
 import { Component, Input, Output, EventEmitter, OnInit, OnChanges } from '@angular/core';
 import { MatSnackBar } from '@angular/material/snack-bar';
+import { EMPTY, Observable, Subject, merge } from 'rxjs';
+import { catchError, finalize, ignoreElements, takeUntil, tap } from 'rxjs/operators';
 import { YehApiService } from '../services/yeh-api.service';
+import { OcrTrackerService } from '../services/ocr-tracker.service';
+import { ErrorAnnouncerService } from '../services/error-announcer.service';
+import { PermissionService } from '../services/permission.service';
+import { UploadEvent, getErrorMessage } from '../models/api.model';
 
 interface ImageUploadResponse {
   success: boolean;
@@ -12,6 +18,24 @@ interface ImageUploadResponse {
   warnings?: string[];
 }
 
+type ImageSlot = 'nutrition' | 'product' | 'ingredients';
+
+type UploadKind = 'nutrition' | 'product';
+
+interface ImageUploadJob {
+  state: 'uploading' | 'uploaded' | 'failed' | 'cancelled';
+  progress: number;
+  loaded: number;
+  total: number | null;
+  withIngredients: boolean;
+  error?: string;
+  cancel$: Subject<void>;
+}
+
+// Upload limit; larger photos can be picked but must be compressed in the editor first
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const MAX_EDITABLE_BYTES = 50 * 1024 * 1024;
+
 @Component({
   selector: 'app-image-upload',
   templateUrl: './image-upload.component.html',
@@ -25,12 +49,12 @@ export class ImageUploadComponent implements OnInit, OnChanges {
   @Input() nutritionFactsStatus: string | null = null;
 
   @Output() imagesUploaded = new EventEmitter<ImageUploadResponse>();
-  @Output() refreshFood = new EventEmitter<void>();
-
-  private baseUrl = 'https://foodsapi.cloudcomputingassociates.net/api/v1';
+  // ID of the food whose images were uploaded (may no longer be the selected food)
+  @Output() refreshFood = new EventEmitter<number>();
 
   // Upload states
-  isUploading = false;
+  // Per-request upload state (the ingredients image travels with the nutrition label)
+  uploads: { [kind in UploadKind]?: ImageUploadJob } = {};
   nutritionImageFile: File | null = null;
   productImageFile: File | null = null;
   ingredientsImageFile: File | null = null;
@@ -45,9 +69,20 @@ export class ImageUploadComponent implements OnInit, OnChanges {
   productImagePreview: string | null = null;
   ingredientsImagePreview: string | null = null;
 
+  // Image open in the crop/rotate/compress editor
+  editingSlot: ImageSlot | null = null;
+  editingFile: File | null = null;
+  readonly MAX_UPLOAD_BYTES = MAX_UPLOAD_BYTES;
+
+  // Files as chosen, so re-editing starts from the original rather than an already compressed copy
+  private originalFiles: { [slot in ImageSlot]?: File } = {};
+
   constructor(
     private foodsService: YehApiService,
-    private snackBar: MatSnackBar
+    private snackBar: MatSnackBar,
+    private ocrTracker: OcrTrackerService,
+    private errors: ErrorAnnouncerService,
+    private permissions: PermissionService
   ) {}
 
   ngOnInit() {
@@ -200,42 +235,66 @@ export class ImageUploadComponent implements OnInit, OnChanges {
 
   // File handling
   private handleNutritionFile(file: File) {
-    if (!this.validateFile(file)) return;
-
-    this.nutritionImageFile = file;
-    this.createImagePreview(file, 'nutrition');
+    this.selectFile('nutrition', file);
   }
 
   private handleProductFile(file: File) {
-    if (!this.validateFile(file)) return;
-
-    this.productImageFile = file;
-    this.createImagePreview(file, 'product');
+    this.selectFile('product', file);
   }
 
   private handleIngredientsFile(file: File) {
+    this.selectFile('ingredients', file);
+  }
+
+  private selectFile(slot: ImageSlot, file: File) {
     if (!this.validateFile(file)) return;
 
-    this.ingredientsImageFile = file;
-    this.createImagePreview(file, 'ingredients');
+    if (this.isSlotUploading(slot)) {
+      this.snackBar.open('This image is still uploading - cancel it to choose another', 'Close', { duration: 3000 });
+      return;
+    }
+    this.forgetFile(slot);
+
+    this.originalFiles[slot] = file;
+    this.setSlotFile(slot, file);
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      this.snackBar.open('Image is over 10MB - crop or compress it before uploading', 'Close', { duration: 5000 });
+      this.editImage(slot);
+    }
+  }
+
+  private setSlotFile(slot: ImageSlot, file: File) {
+    if (slot === 'nutrition') {
+      this.nutritionImageFile = file;
+    } else if (slot === 'product') {
+      this.productImageFile = file;
+    } else {
+      this.ingredientsImageFile = file;
+    }
+    this.createImagePreview(file, slot);
   }
 
   private validateFile(file: File): boolean {
+    if (!this.canUpload) {
+      this.snackBar.open('Your role can\'t upload images', 'Close', { duration: 3000 });
+      return false;
+    }
+
     if (!file.type.startsWith('image/')) {
       this.snackBar.open('Please select an image file', 'Close', { duration: 3000 });
       return false;
     }
 
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (file.size > maxSize) {
-      this.snackBar.open('File size must be less than 10MB', 'Close', { duration: 3000 });
+    if (file.size > MAX_EDITABLE_BYTES) {
+      this.snackBar.open('File size must be less than 50MB', 'Close', { duration: 3000 });
       return false;
     }
 
     return true;
   }
 
-  private createImagePreview(file: File, type: 'nutrition' | 'product' | 'ingredients') {
+  private createImagePreview(file: File, type: ImageSlot) {
     const reader = new FileReader();
     reader.onload = (e) => {
       const result = e.target?.result as string;
@@ -250,8 +309,69 @@ export class ImageUploadComponent implements OnInit, OnChanges {
     reader.readAsDataURL(file);
   }
 
+  // ========================================
+  // CROP / ROTATE / COMPRESS
+  // ========================================
+
+  // Open the editor on a selected image (always from the file as originally chosen)
+  editImage(slot: ImageSlot) {
+    this.editingFile = this.originalFiles[slot] ?? this.getSlotFile(slot);
+    this.editingSlot = this.editingFile ? slot : null;
+  }
+
+  onImageEdited(file: File) {
+    if (this.editingSlot) {
+      this.setSlotFile(this.editingSlot, file);
+    }
+    this.closeEditor();
+  }
+
+  closeEditor() {
+    this.editingSlot = null;
+    this.editingFile = null;
+  }
+
+  get editorTitle(): string {
+    switch (this.editingSlot) {
+      case 'nutrition': return 'Edit Nutrition Facts Label';
+      case 'product': return 'Edit Product Image';
+      default: return 'Edit Ingredients Image';
+    }
+  }
+
+  isOverUploadLimit(file: File | null): boolean {
+    return !!file && file.size > MAX_UPLOAD_BYTES;
+  }
+
+  private getSlotFile(slot: ImageSlot): File | null {
+    switch (slot) {
+      case 'nutrition': return this.nutritionImageFile;
+      case 'product': return this.productImageFile;
+      default: return this.ingredientsImageFile;
+    }
+  }
+
+  // Drop everything kept for a slot - original file, open editor, in-flight or failed upload
+  private forgetFile(slot: ImageSlot) {
+    delete this.originalFiles[slot];
+    if (this.editingSlot === slot) {
+      this.closeEditor();
+    }
+    if (slot !== 'ingredients') {
+      this.cancelUpload(slot);
+      delete this.uploads[slot];
+    }
+  }
+
+  // The ingredients image is sent as part of the nutrition request
+  isSlotUploading(slot: ImageSlot): boolean {
+    const job = slot === 'ingredients' ? this.uploads.nutrition : this.uploads[slot];
+    return job?.state === 'uploading' && (slot !== 'ingredients' || job.withIngredients);
+  }
+
   // Remove uploaded files
   removeNutritionImage() {
+    this.forgetFile('nutrition');
     this.nutritionImageFile = null;
     this.nutritionImagePreview = this.existingNutritionImageUrl
       ? this.existingNutritionImageUrl
@@ -259,6 +379,7 @@ export class ImageUploadComponent implements OnInit, OnChanges {
   }
 
   removeProductImage() {
+    this.forgetFile('product');
     this.productImageFile = null;
     this.productImagePreview = this.existingProductImageUrl
       ? this.existingProductImageUrl
@@ -266,12 +387,18 @@ export class ImageUploadComponent implements OnInit, OnChanges {
   }
 
   removeIngredientsImage() {
+    this.forgetFile('ingredients');
     this.ingredientsImageFile = null;
     this.ingredientsImagePreview = null;
   }
 
   // Clear all images (UI only - does not delete from server)
   clearAllImages() {
+    this.cancelUpload('nutrition');
+    this.cancelUpload('product');
+    this.uploads = {};
+    this.originalFiles = {};
+    this.closeEditor();
     this.nutritionImageFile = null;
     this.productImageFile = null;
     this.ingredientsImageFile = null;
@@ -280,102 +407,182 @@ export class ImageUploadComponent implements OnInit, OnChanges {
     this.ingredientsImagePreview = null;
   }
 
-  // Upload images
-  async uploadImages() {
+  // Upload images - nutrition (with ingredients) and product go as separate requests,
+  // each with its own progress bar, cancel and retry
+  uploadImages() {
     if (!this.nutritionImageFile && !this.productImageFile && !this.ingredientsImageFile) {
       this.snackBar.open('Please select at least one image to upload', 'Close', { duration: 3000 });
       return;
     }
 
+    if ([this.nutritionImageFile, this.productImageFile, this.ingredientsImageFile].some(file => this.isOverUploadLimit(file))) {
+      this.snackBar.open('Images over 10MB must be compressed first - use Edit', 'Close', { duration: 3000 });
+      return;
+    }
+
     // All image uploads require foodId (food must already exist)
-    if ((this.nutritionImageFile || this.ingredientsImageFile || this.productImageFile) && !this.foodId) {
+    if (!this.foodId) {
       this.snackBar.open('No Food ID for image upload', 'Close', { duration: 3000 });
       return;
     }
 
-    this.isUploading = true;
+    const kinds: UploadKind[] = [];
+    if (this.nutritionImageFile) kinds.push('nutrition');
+    if (this.productImageFile) kinds.push('product');
+    if (kinds.length === 0) {
+      this.snackBar.open('The ingredients image is uploaded with a nutrition label - add one first', 'Close', { duration: 3000 });
+      return;
+    }
 
-    try {
-      let nutritionUploaded = false;
-      let productUploaded = false;
-      let ingredientsUploaded = false;
-      const warnings: string[] = [];
+    this.startUploads(kinds);
+  }
 
-      // Upload nutrition image if present (uses foodId)
-      // Ingredients image is uploaded together with nutrition image
-      if (this.nutritionImageFile && this.foodId) {
-        try {
-          const options: { ingredientsImage?: File } = {};
-          if (this.ingredientsImageFile) {
-            options.ingredientsImage = this.ingredientsImageFile;
-          }
+  // Send one failed or cancelled image again, leaving the others alone
+  retryUpload(kind: UploadKind) {
+    if (this.uploads[kind]?.state !== 'uploading') {
+      this.startUploads([kind]);
+    }
+  }
 
-          const nutritionResponse = await this.foodsService.uploadNutritionImage(
-            this.foodId,
-            this.nutritionImageFile,
-            options
-          ).toPromise();
-
-          if (nutritionResponse?.success) {
-            nutritionUploaded = true;
-            this.nutritionImageFile = null;
-            if (this.ingredientsImageFile) {
-              ingredientsUploaded = true;
-              this.ingredientsImageFile = null;
-              this.ingredientsImagePreview = null;
-            }
-          }
-        } catch (nutritionError: any) {
-          console.error('Nutrition image upload error:', nutritionError);
-          warnings.push(`Nutrition image: ${nutritionError?.error?.message || nutritionError?.message || 'Upload failed'}`);
-        }
-      }
+  // Abort an upload in progress (the request is cancelled; the image stays selected)
+  cancelUpload(kind: UploadKind) {
+    this.uploads[kind]?.cancel$.next();
+  }
 
-      // Upload product image if present (uses foodId)
-      if (this.productImageFile && this.foodId) {
-        try {
-          const productResponse = await this.foodsService.uploadProductImage(
-            this.foodId,
-            this.productImageFile
-          ).toPromise();
-
-          if (productResponse?.success) {
-            productUploaded = true;
-            this.productImageFile = null;
-          }
-        } catch (productError: any) {
-          console.error('Product image upload error:', productError);
-          warnings.push(`Product image: ${productError?.error?.message || productError?.message || 'Upload failed'}`);
+  // The food is captured when the upload starts - another food may be selected before it finishes
+  private startUploads(kinds: UploadKind[]) {
+    const foodId = this.foodId as number;
+    const foodDescription = this.foodDescription;
+    merge(...kinds.map(kind => this.createUpload(kind, foodId, foodDescription))).subscribe({
+      complete: () => this.finishUploads(kinds, foodId)
+    });
+  }
+
+  // Completes once the upload has succeeded, failed or been cancelled
+  private createUpload(kind: UploadKind, foodId: number, foodDescription: string): Observable<never> {
+    const ingredientsImage = kind === 'nutrition' ? this.ingredientsImageFile ?? undefined : undefined;
+    const job: ImageUploadJob = {
+      state: 'uploading',
+      progress: 0,
+      loaded: 0,
+      total: null,
+      withIngredients: !!ingredientsImage,
+      cancel$: new Subject<void>()
+    };
+    this.uploads[kind] = job;
+
+    const request: Observable<UploadEvent<{ success: boolean; status?: string }>> = kind === 'nutrition'
+      ? this.foodsService.uploadNutritionImage(foodId, this.nutritionImageFile as File, { ingredientsImage })
+      : this.foodsService.uploadProductImage(foodId, this.productImageFile as File);
+
+    return request.pipe(
+      tap(event => {
+        job.progress = event.progress;
+        job.loaded = event.loaded;
+        job.total = event.total;
+        if (event.response) {
+          this.onUploadResponse(kind, job, event.response, foodId, foodDescription);
         }
-      }
+      }),
+      takeUntil(job.cancel$),
+      ignoreElements(),
+      catchError(error => {
+        console.error(`${kind} image upload error:`, error);
+        job.state = 'failed';
+        job.error = getErrorMessage(error, 'Upload failed');
+        return EMPTY;
+      }),
+      finalize(() => {
+        if (job.state === 'uploading') {
+          job.state = 'cancelled';
+        }
+      })
+    );
+  }
+
+  private onUploadResponse(
+    kind: UploadKind,
+    job: ImageUploadJob,
+    response: { success: boolean; status?: string },
+    foodId: number,
+    foodDescription: string
+  ) {
+    if (!response.success) {
+      job.state = 'failed';
+      job.error = 'The image service did not accept the upload';
+      return;
+    }
 
-      // Build response
-      const response: ImageUploadResponse = {
-        success: nutritionUploaded || productUploaded || ingredientsUploaded,
-        nutritionImageUploaded: nutritionUploaded,
-        productImageUploaded: productUploaded,
-        ingredientsImageUploaded: ingredientsUploaded,
-        message: this.buildUploadMessage(nutritionUploaded, productUploaded, ingredientsUploaded),
-        warnings: warnings.length > 0 ? warnings : undefined
-      };
-
-      if (response.success) {
-        this.snackBar.open(response.message, 'Close', { duration: 5000 });
-        this.imagesUploaded.emit(response);
-        this.refreshFood.emit();
-      } else if (warnings.length > 0) {
-        this.snackBar.open(`Upload failed: ${warnings.join('; ')}`, 'Close', { duration: 5000 });
+    job.state = 'uploaded';
+    if (kind === 'nutrition') {
+      // Track OCR progress until nutrition facts are extracted
+      this.ocrTracker.track(foodId, foodDescription, response.status);
+      this.nutritionImageFile = null;
+      delete this.originalFiles.nutrition;
+      if (job.withIngredients) {
+        this.ingredientsImageFile = null;
+        this.ingredientsImagePreview = null;
+        delete this.originalFiles.ingredients;
       }
+    } else {
+      this.productImageFile = null;
+      delete this.originalFiles.product;
+    }
+  }
+
+  // Report the finished uploads; failed and cancelled ones keep their progress row for retry
+  private finishUploads(kinds: UploadKind[], foodId: number) {
+    const nutrition = kinds.includes('nutrition') ? this.uploads.nutrition : undefined;
+    const product = kinds.includes('product') ? this.uploads.product : undefined;
+    const nutritionUploaded = nutrition?.state === 'uploaded';
+    const productUploaded = product?.state === 'uploaded';
+    const ingredientsUploaded = nutritionUploaded && !!nutrition?.withIngredients;
+
+    const warnings: string[] = [];
+    if (nutrition?.state === 'failed') {
+      warnings.push(`Nutrition image: ${nutrition.error}`);
+    }
+    if (product?.state === 'failed') {
+      warnings.push(`Product image: ${product.error}`);
+    }
+
+    kinds.filter(kind => this.uploads[kind]?.state === 'uploaded').forEach(kind => delete this.uploads[kind]);
+
+    const response: ImageUploadResponse = {
+      success: nutritionUploaded || productUploaded,
+      nutritionImageUploaded: nutritionUploaded,
+      productImageUploaded: productUploaded,
+      ingredientsImageUploaded: ingredientsUploaded,
+      message: this.buildUploadMessage(nutritionUploaded, productUploaded, ingredientsUploaded),
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+
+    if (response.success) {
+      this.snackBar.open(response.message, 'Close', { duration: 5000 });
+      this.imagesUploaded.emit(response);
+      this.refreshFood.emit(foodId);
+    }
+    if (warnings.length > 0) {
+      this.errors.announceMessage(`Upload failed: ${warnings.join('; ')}`);
+    }
+  }
 
-    } catch (error: any) {
-      console.error('Upload error:', error);
-      const errorMessage = error?.error?.message || error?.message || 'Upload failed. Please try again.';
-      this.snackBar.open(`Upload failed: ${errorMessage}`, 'Close', { duration: 5000 });
-    } finally {
-      this.isUploading = false;
+  getUploadStatus(job: ImageUploadJob): string {
+    switch (job.state) {
+      case 'uploading':
+        return job.total
+          ? `Uploading ${job.progress}% (${this.formatMegabytes(job.loaded)} of ${this.formatMegabytes(job.total)}MB)`
+          : 'Uploading...';
+      case 'uploaded': return 'Uploaded';
+      case 'cancelled': return 'Upload cancelled';
+      case 'failed': return job.error || 'Upload failed';
     }
   }
 
+  private formatMegabytes(bytes: number): string {
+    return (bytes / 1024 / 1024).toFixed(1);
+  }
+
   private buildUploadMessage(nutritionUploaded: boolean, productUploaded: boolean, ingredientsUploaded: boolean = false): string {
     const uploaded: string[] = [];
     if (nutritionUploaded) uploaded.push('Nutrition facts');
@@ -391,6 +598,15 @@ export class ImageUploadComponent implements OnInit, OnChanges {
     }
   }
 
+  // Viewers and approvers see existing images but can't add new ones
+  get canUpload(): boolean {
+    return this.permissions.can('upload:images');
+  }
+
+  get isUploading(): boolean {
+    return Object.values(this.uploads).some(job => job?.state === 'uploading');
+  }
+
   // Check if there are files ready to upload
   get hasFilesToUpload(): boolean {
     return !!(this.nutritionImageFile || this.productImageFile || this.ingredientsImageFile);
@@ -22,7 +22,7 @@ export class LoginComponent implements OnInit {
     }
     else { 
       this.auth.loginWithRedirect({
-        appState: { target: '/' },
+        appState: { target: window.location.pathname + window.location.search },  // Return to deep link after login
         authorizationParams: {
           prompt: "login",
           screen_hint: "signup"
@@ -0,0 +1,176 @@
+import { Component, EventEmitter, OnDestroy, OnInit, Output } from '@angular/core';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Subscription } from 'rxjs';
+import { RecipeService } from '../services/recipe.service';
+import { ExportCellValue, FoodExportService } from '../services/food-export.service';
+import { Recipe, RecipeIngredient, RecipeSummary } from '../models/recipe.model';
+import { NUTRIENT_FIELDS, NutritionFactField } from '../models/nutrition-fields';
+
+@Component({
+  selector: 'app-meal-builder',
+  templateUrl: './meal-builder.component.html',
+  styleUrls: ['./meal-builder.component.scss']
+})
+export class MealBuilderComponent implements OnInit, OnDestroy {
+  @Output() closed = new EventEmitter<void>();
+  @Output() foodOpened = new EventEmitter<number>();
+
+  readonly nutrientFields: NutritionFactField[] = NUTRIENT_FIELDS;
+  readonly caloriesField = NUTRIENT_FIELDS.find(f => f.key === 'calories')!;
+  readonly carbsField = NUTRIENT_FIELDS.find(f => f.key === 'totalCarbohydrateG')!;
+
+  summary: RecipeSummary;
+  savedRecipes: Recipe[] = [];
+  showSaved = false;
+
+  private subscription: Subscription | null = null;
+
+  constructor(
+    private recipeService: RecipeService,
+    private exportService: FoodExportService,
+    private snackBar: MatSnackBar
+  ) {
+    this.summary = this.recipeService.summarize(this.recipeService.current);
+  }
+
+  get recipe(): Recipe {
+    return this.recipeService.current;
+  }
+
+  ngOnInit() {
+    this.savedRecipes = this.recipeService.getSavedRecipes();
+    this.subscription = this.recipeService.changed$.subscribe(() => this.refresh());
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  private refresh(): void {
+    this.summary = this.recipeService.summarize(this.recipe);
+  }
+
+  onGramsChange(ingredient: RecipeIngredient, grams: number | string): void {
+    this.recipeService.updateGrams(ingredient.foodId, Number(grams));
+  }
+
+  remove(ingredient: RecipeIngredient): void {
+    this.recipeService.removeIngredient(ingredient.foodId);
+  }
+
+  getGlycemicLoadCategory(): string | null {
+    return this.recipeService.getGlycemicLoadCategory(this.summary.glycemicLoad);
+  }
+
+  // Nutrient value for one ingredient portion
+  getIngredientValue(ingredient: RecipeIngredient, field: NutritionFactField): number | null {
+    const value = ingredient.nutritionFacts?.[field.key];
+    return typeof value === 'number' ? Math.round(value * ingredient.grams / 10) / 10 : null;
+  }
+
+  // ========================================
+  // SAVED RECIPES
+  // ========================================
+
+  save(): void {
+    const name = (this.recipe.name || '').trim();
+    if (!name) {
+      this.snackBar.open('Please name the recipe before saving', 'Close', { duration: 3000 });
+      return;
+    }
+    if (this.recipe.ingredients.length === 0) {
+      this.snackBar.open('Add at least one food before saving', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.recipe.name = name;
+    try {
+      this.recipeService.saveCurrent();
+    } catch (error) {
+      console.error('Recipe save error:', error);
+      this.snackBar.open('Failed to save recipe (browser storage may be full)', 'Close', {
+        duration: 10000,
+        horizontalPosition: 'center',
+        verticalPosition: 'top',
+        panelClass: ['error-snackbar']
+      });
+      return;
+    }
+
+    this.savedRecipes = this.recipeService.getSavedRecipes();
+    this.snackBar.open(`Recipe "${name}" saved`, 'Close', {
+      duration: 3000,
+      horizontalPosition: 'center',
+      verticalPosition: 'top',
+      panelClass: ['info-snackbar']
+    });
+  }
+
+  startNew(): void {
+    this.recipeService.startNew();
+  }
+
+  open(recipe: Recipe): void {
+    if (this.recipeService.open(recipe.id)) {
+      this.showSaved = false;
+    }
+  }
+
+  delete(recipe: Recipe): void {
+    if (!confirm(`Delete recipe "${recipe.name}"?`)) {
+      return;
+    }
+    this.recipeService.delete(recipe.id);
+    this.savedRecipes = this.recipeService.getSavedRecipes();
+  }
+
+  // ========================================
+  // EXPORT
+  // ========================================
+
+  // One row per ingredient (nutrients for the portion used) plus a total row
+  exportCsv(): void {
+    const headers = ['Food ID', 'Description', 'Grams', 'GI', 'YEH Approved',
+      ...this.nutrientFields.map(field => `${field.label} (${field.unit})`)];
+    const rows: ExportCellValue[][] = this.recipe.ingredients.map(ingredient => [
+      ingredient.foodId,
+      ingredient.description,
+      ingredient.grams,
+      ingredient.glycemicIndex,
+      ingredient.yehApproved,
+      ...this.nutrientFields.map(field => this.getIngredientValue(ingredient, field))
+    ]);
+    rows.push([
+      null, 'Total', this.summary.totalGrams, this.summary.glycemicIndex, null,
+      ...this.nutrientFields.map(field => this.summary.nutrients[field.key])
+    ]);
+    rows.push([null, 'Glycemic Load', null, this.summary.glycemicLoad, null]);
+
+    // BOM so Excel opens UTF-8 CSV correctly
+    this.exportService.download('\uFEFF' + this.exportService.toCsv(headers, rows),
+      'text/csv;charset=utf-8', `${this.getFileBaseName()}.csv`);
+  }
+
+  exportJson(): void {
+    const content = JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      recipe: this.recipe,
+      summary: {
+        totalGrams: this.summary.totalGrams,
+        availableCarbsG: this.summary.availableCarbsG,
+        glycemicIndex: this.summary.glycemicIndex,
+        glycemicLoad: this.summary.glycemicLoad,
+        nutrients: this.summary.nutrients
+      }
+    }, null, 2);
+    this.exportService.download(content, 'application/json', `${this.getFileBaseName()}.json`);
+  }
+
+  private getFileBaseName(): string {
+    return (this.recipe.name || 'recipe').trim().replace(/[\\/:*?"<>|]/g, '_') || 'recipe';
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+}
@@ -0,0 +1,81 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { MetadataConflict, MetadataField, MetadataSnapshot } from '../models/metadata-history.model';
+import { METADATA_FIELD_LABELS, formatMetadataValue } from '../models/food-metadata';
+
+export type ConflictChoice = 'mine' | 'original' | 'server';
+
+// One field that differs between the editor's values, the loaded values and the server
+interface ConflictRow {
+  field: MetadataField;
+  label: string;
+  mine: MetadataSnapshot[MetadataField];
+  original: MetadataSnapshot[MetadataField];
+  server: MetadataSnapshot[MetadataField];
+  // Both sides changed the field to different values
+  isConflict: boolean;
+  choice: ConflictChoice;
+}
+
+@Component({
+  selector: 'app-metadata-conflict',
+  templateUrl: './metadata-conflict.component.html',
+  styleUrls: ['./metadata-conflict.component.scss']
+})
+export class MetadataConflictComponent implements OnChanges {
+  @Input() conflict: MetadataConflict | null = null;
+  @Input() isSaving = false;
+
+  // Values to keep for every field (the caller saves whatever differs from the server)
+  @Output() resolved = new EventEmitter<MetadataSnapshot>();
+  @Output() cancelled = new EventEmitter<void>();
+
+  readonly formatValue = formatMetadataValue;
+
+  rows: ConflictRow[] = [];
+
+  ngOnChanges() {
+    this.rows = this.conflict ? this.buildRows(this.conflict) : [];
+  }
+
+  // Fields nobody changed are left out; default to whichever side changed the field (mine if both did)
+  private buildRows(conflict: MetadataConflict): ConflictRow[] {
+    return (Object.keys(METADATA_FIELD_LABELS) as MetadataField[])
+      .map(field => {
+        const mine = conflict.mine[field];
+        const original = conflict.original[field];
+        const server = conflict.server[field];
+        const mineChanged = mine !== original;
+        const serverChanged = server !== original;
+        return {
+          field,
+          label: METADATA_FIELD_LABELS[field],
+          mine,
+          original,
+          server,
+          isConflict: mineChanged && serverChanged && mine !== server,
+          choice: (serverChanged && !mineChanged ? 'server' : 'mine') as ConflictChoice
+        };
+      })
+      .filter(row => row.mine !== row.original || row.server !== row.original);
+  }
+
+  getConflictCount(): number {
+    return this.rows.filter(row => row.isConflict).length;
+  }
+
+  chooseAll(choice: ConflictChoice): void {
+    this.rows.forEach(row => row.choice = choice);
+  }
+
+  // Start from the server values and apply the chosen side of each differing field
+  resolve(): void {
+    if (!this.conflict) {
+      return;
+    }
+    const conflict = this.conflict;
+    const values: MetadataSnapshot = { ...conflict.server };
+    const choose = <K extends MetadataField>(field: K, choice: ConflictChoice) => values[field] = conflict[choice][field];
+    this.rows.forEach(row => choose(row.field, row.choice));
+    this.resolved.emit(values);
+  }
+}
@@ -0,0 +1,130 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges } from '@angular/core';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Subscription } from 'rxjs';
+import { MetadataHistoryService } from '../services/metadata-history.service';
+import { ErrorAnnouncerService } from '../services/error-announcer.service';
+import { PermissionService } from '../services/permission.service';
+import { Food } from '../models/food.model';
+import { MetadataChange } from '../models/metadata-history.model';
+import { METADATA_FIELD_LABELS, formatMetadataValue } from '../models/food-metadata';
+
+@Component({
+  selector: 'app-metadata-history',
+  templateUrl: './metadata-history.component.html',
+  styleUrls: ['./metadata-history.component.scss']
+})
+export class MetadataHistoryComponent implements OnChanges, OnDestroy {
+  @Input() food: Food | null = null;
+
+  @Output() reverted = new EventEmitter<Food>();
+
+  readonly fieldLabels = METADATA_FIELD_LABELS;
+  readonly formatValue = formatMetadataValue;
+
+  entries: MetadataChange[] = [];
+  isLoading = false;
+  revertingId: string | null = null;
+
+  private loadSubscription: Subscription | null = null;
+
+  constructor(
+    private history: MetadataHistoryService,
+    private snackBar: MatSnackBar,
+    private errors: ErrorAnnouncerService,
+    public permissions: PermissionService
+  ) {}
+
+  ngOnChanges(changes: SimpleChanges) {
+    // Reload when a different food is shown or the current one was saved
+    if (changes['food']) {
+      this.load();
+    }
+  }
+
+  ngOnDestroy() {
+    this.loadSubscription?.unsubscribe();
+  }
+
+  private load(): void {
+    this.loadSubscription?.unsubscribe();
+    if (!this.food) {
+      this.entries = [];
+      return;
+    }
+    this.isLoading = true;
+    this.loadSubscription = this.history.getHistory(this.food.id).subscribe(entries => {
+      this.entries = entries;
+      this.isLoading = false;
+    });
+  }
+
+  getSourceLabel(entry: MetadataChange): string {
+    switch (entry.source) {
+      case 'bulk': return 'Bulk edit';
+      case 'import': return 'CSV import';
+      case 'glCheck': return 'GL check';
+      case 'offline': return 'Synced offline edit';
+      case 'revert': return 'Revert';
+      default: return 'Edit';
+    }
+  }
+
+  // Approval is only changed by users who may approve foods, including through a revert
+  canRevert(entry: MetadataChange): boolean {
+    return entry.changes.length > 0
+      && this.permissions.can('edit:foods')
+      && (this.permissions.can('approve:foods') || !entry.changes.some(change => change.field === 'yehApproved'));
+  }
+
+  // Fields changed again since this entry - reverting would overwrite those newer values
+  getOverwrittenFields(entry: MetadataChange): string[] {
+    if (!this.food) {
+      return [];
+    }
+    const current = this.history.snapshot(this.food);
+    return entry.changes
+      .filter(change => current[change.field] !== change.newValue)
+      .map(change => this.fieldLabels[change.field]);
+  }
+
+  /**
+   * Restore the old values of a history entry through updateFoodMetadata
+   * @param entry - Entry to revert
+   */
+  revert(entry: MetadataChange): void {
+    if (!this.food || this.revertingId || !this.canRevert(entry)) {
+      return;
+    }
+
+    const overwritten = this.getOverwrittenFields(entry);
+    const message = overwritten.length > 0
+      ? `${overwritten.join(', ')} changed again after this edit. Revert anyway and overwrite the current values?`
+      : 'Restore the previous values from this change?';
+    if (!confirm(message)) {
+      return;
+    }
+
+    this.revertingId = entry.id;
+    this.history.updateFoodMetadata(this.food, this.history.getRevertUpdate(entry), 'revert').subscribe({
+      next: (updatedFood) => {
+        this.revertingId = null;
+        this.snackBar.open('Change reverted', 'Close', {
+          duration: 3000,
+          horizontalPosition: 'center',
+          verticalPosition: 'top',
+          panelClass: ['info-snackbar']
+        });
+        this.reverted.emit(updatedFood);
+      },
+      error: (error: HttpErrorResponse) => {
+        this.revertingId = null;
+        this.errors.announce(error, 'Failed to revert change');
+      }
+    });
+  }
+
+  trackById(index: number, entry: MetadataChange): string {
+    return entry.id;
+  }
+}
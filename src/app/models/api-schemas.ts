@@ -0,0 +1,185 @@
+import Ajv, { ErrorObject, SchemaObject, ValidateFunction } from 'ajv';
+import { ApiResponseError } from './api.model';
+import { NUTRITION_FACT_FIELDS } from './nutrition-fields';
+import { METADATA_FIELD_LABELS } from './food-metadata';
+
+// Schemas cover the fields the UI reads; anything else in a payload is allowed and ignored.
+// (assets/schemas/food.schema.json describes the full enriched record and is stricter than list results.)
+
+const nullableString = { type: ['string', 'null'] };
+const nullableNumber = { type: ['number', 'null'] };
+
+const nutritionFactsSchema: SchemaObject = {
+  type: ['object', 'null'],
+  properties: {
+    foodName: nullableString,
+    servingSizeHousehold: nullableString,
+    ...NUTRITION_FACT_FIELDS.reduce((properties, field) => ({ ...properties, [field.key]: nullableNumber }), {})
+  }
+};
+
+export const FOOD_SCHEMA: SchemaObject = {
+  type: 'object',
+  required: ['id', 'description'],
+  properties: {
+    id: { type: 'number' },
+    description: { type: 'string' },
+    shortDescription: nullableString,
+    glycemicIndex: nullableNumber,
+    glycemicLoad: nullableNumber,
+    yehApproved: { type: ['boolean', 'null'] },
+    nutritionFacts: nutritionFactsSchema,
+    servingSizeMultiplicand: nullableNumber,
+    brandInfo: {
+      type: ['object', 'null'],
+      properties: {
+        nutritionSiteCandidates: { type: ['array', 'null'], items: { type: 'string' } },
+        productImageSiteCandidates: { type: ['array', 'null'], items: { type: 'string' } }
+      }
+    },
+    nutritionFactsImage: nullableString,
+    foodImage: nullableString,
+    foodImageThumbnail: nullableString,
+    nutritionFactsStatus: nullableString
+  }
+};
+
+export const FOOD_SEARCH_SCHEMA: SchemaObject = {
+  type: 'object',
+  required: ['count', 'foods'],
+  properties: {
+    count: { type: 'number' },
+    foods: { type: 'array', items: FOOD_SCHEMA }
+  }
+};
+
+const metadataValue = { type: ['string', 'number', 'boolean', 'null'] };
+
+const historyEntrySchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    id: { type: ['string', 'number'] },
+    timestamp: { type: 'string' },
+    changedAt: { type: 'string' },
+    user: nullableString,
+    changedBy: nullableString,
+    source: { type: 'string' },
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['field'],
+        properties: {
+          // Only fields the editor knows - a revert sends them back to PATCH /foods/{id}
+          field: { enum: Object.keys(METADATA_FIELD_LABELS) },
+          oldValue: metadataValue,
+          newValue: metadataValue
+        }
+      }
+    }
+  }
+};
+
+export const FOOD_HISTORY_SCHEMA: SchemaObject = {
+  anyOf: [
+    { type: 'array', items: historyEntrySchema },
+    {
+      type: 'object',
+      required: ['history'],
+      properties: {
+        history: { type: 'array', items: historyEntrySchema }
+      }
+    }
+  ]
+};
+
+export const IMAGE_URLS_SCHEMA: SchemaObject = {
+  type: 'object',
+  properties: {
+    description: { type: 'string' },
+    product_url: nullableString,
+    thumbnail_url: nullableString,
+    nutrition_url: nullableString
+  }
+};
+
+export const IMAGE_STATUS_SCHEMA: SchemaObject = {
+  type: 'object',
+  properties: {
+    jobs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['foodId', 'status'],
+        properties: {
+          foodId: { type: ['number', 'string'] },
+          status: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+export const HEALTH_SCHEMA: SchemaObject = {
+  type: 'object',
+  required: ['status'],
+  properties: {
+    status: { type: 'string' }
+  }
+};
+
+export const APP_CONFIG_SCHEMA: SchemaObject = {
+  type: 'object',
+  required: ['apiUrl', 'imageApiUrl', 'auth0'],
+  properties: {
+    apiUrl: { type: 'string', minLength: 1 },
+    imageApiUrl: { type: 'string', minLength: 1 },
+    auth0: {
+      type: 'object',
+      required: ['domain', 'clientId', 'audience'],
+      properties: {
+        // Empty or unfilled ___PLACEHOLDER___ values stop startup here rather than failing at login
+        domain: { type: 'string', minLength: 1, pattern: '^(?!___)' },
+        clientId: { type: 'string', minLength: 1, pattern: '^(?!___)' },
+        audience: { type: 'string' }
+      }
+    },
+    allowedList: { type: 'array', items: { type: 'string' } },
+    rolesClaim: { type: 'string' }
+  }
+};
+
+const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+const validators = new Map<SchemaObject, ValidateFunction>();
+
+// Compile each schema once, on first use
+function getValidator(schema: SchemaObject): ValidateFunction {
+  let validate = validators.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(schema, validate);
+  }
+  return validate;
+}
+
+// "/foods/3/id must be number" style messages
+function describeErrors(errors: ErrorObject[] | null | undefined): string[] {
+  return (errors || []).map(error => `${error.instancePath || 'response'} ${error.message ?? 'is invalid'}`);
+}
+
+/**
+ * Check a response body against its schema
+ * @param schema - Schema for the expected payload
+ * @param body - Response body
+ * @param endpoint - Request description used in the error, e.g. "GET /foods/search"
+ * @returns The body typed as T, or throws ApiResponseError when it doesn't match
+ */
+export function validateResponse<T>(schema: SchemaObject, body: unknown, endpoint: string): T {
+  const validate = getValidator(schema);
+  if (!validate(body)) {
+    const error = new ApiResponseError(endpoint, describeErrors(validate.errors));
+    console.error(error.message, error.details, body);
+    throw error;
+  }
+  return body as T;
+}
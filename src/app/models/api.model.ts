@@ -0,0 +1,209 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { Food } from './food.model';
+import { MetadataFieldChange } from './metadata-history.model';
+
+// ========================================
+// FOODS API RESPONSES (yeh-api)
+// ========================================
+
+// GET /api/foods/search and /api/foods/search/all/yehapproved
+export interface FoodSearchResponse {
+  count: number;
+  foods: Food[];
+}
+
+// One entry from GET /api/foods/{id}/history (changedAt/changedBy are the older field names)
+export interface FoodHistoryEntry {
+  id?: string | number;
+  timestamp?: string;
+  changedAt?: string;
+  user?: string | null;
+  changedBy?: string | null;
+  source?: string;
+  changes?: MetadataFieldChange[];
+}
+
+// GET /api/foods/{id}/history - the entries, bare or wrapped in { history }
+export type FoodHistoryResponse = FoodHistoryEntry[] | { history: FoodHistoryEntry[] };
+
+// ========================================
+// IMAGE API RESPONSES (yeh-image)
+// ========================================
+
+export interface NutritionUploadResponse {
+  success: boolean;
+  cdn_url: string;
+  description: string;
+  status: string;
+}
+
+export interface ProductUploadResponse {
+  success: boolean;
+  cdn_url: string;
+  thumbnail_url: string;
+  food_id: number;
+}
+
+// Progress of an image upload - emitted as the body is sent, then once more with the server's response
+export interface UploadEvent<T> {
+  loaded: number;
+  // null when the browser can't tell the body size
+  total: number | null;
+  // 0-100
+  progress: number;
+  response: T | null;
+}
+
+// GET /api/image/url - CDN URLs for a food's images (only the requested type when one is given)
+export interface ImageUrlsResponse {
+  description?: string;
+  product_url?: string | null;
+  thumbnail_url?: string | null;
+  nutrition_url?: string | null;
+}
+
+// One in-flight OCR job from GET /api/image/status
+export interface ImageStatusJob {
+  foodId: number | string;
+  status: string;
+}
+
+// GET /api/image/status
+export interface ImageStatusResponse {
+  jobs?: ImageStatusJob[];
+}
+
+// GET /api/image/health
+export interface HealthResponse {
+  status: string;
+}
+
+/**
+ * A response body that doesn't match the expected schema
+ * Raised in place of the payload so callers report it like any other failed request
+ */
+export class ApiResponseError extends Error {
+  readonly name = 'ApiResponseError';
+
+  /**
+   * @param endpoint - Request that returned the payload, e.g. "GET /foods/search"
+   * @param details - Schema violations, e.g. "/foods/3/id must be number"
+   */
+  constructor(readonly endpoint: string, readonly details: string[]) {
+    super(`Unexpected response from ${endpoint}: ${details[0] ?? 'invalid payload'}`);
+  }
+}
+
+// ========================================
+// ERRORS
+// ========================================
+
+export type ApiErrorKind =
+  'offline' | 'unavailable' | 'rateLimited' | 'unauthorized' | 'forbidden' | 'notFound' | 'conflict' | 'client' | 'server';
+
+// Statuses worth retrying for idempotent requests (no connection, throttled, gateway/server unavailable)
+export const RETRYABLE_STATUSES = [0, 429, 502, 503, 504];
+
+/**
+ * Retry-After header in milliseconds (delay-seconds or an HTTP date)
+ * @param value - Header value
+ * @returns Delay, or null when missing or unparseable
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function getErrorKind(status: number): ApiErrorKind {
+  switch (status) {
+    case 0: return 'offline';
+    case 401: return 'unauthorized';
+    case 403: return 'forbidden';
+    case 404: return 'notFound';
+    case 409:
+    case 412: return 'conflict';
+    case 429: return 'rateLimited';
+    case 502:
+    case 503:
+    case 504: return 'unavailable';
+    default: return status >= 500 ? 'server' : 'client';
+  }
+}
+
+/**
+ * Failed HTTP request as raised by ApiErrorInterceptor
+ * Still an HttpErrorResponse (status, error body and headers are unchanged) with a kind and a message to show
+ */
+export class ApiError extends HttpErrorResponse {
+  readonly kind: ApiErrorKind;
+  // Wait requested by the server before trying again
+  readonly retryAfterMs: number | null;
+  // Message from the server's error body, when it sent one
+  readonly serverMessage: string | null;
+
+  /**
+   * @param response - Original error response
+   * @param attempts - Number of times the request was sent (more than 1 when it was retried)
+   */
+  constructor(response: HttpErrorResponse, readonly attempts: number = 1) {
+    super({
+      error: response.error,
+      headers: response.headers,
+      status: response.status,
+      statusText: response.statusText,
+      url: response.url ?? undefined
+    });
+    this.kind = getErrorKind(response.status);
+    this.retryAfterMs = parseRetryAfter(response.headers?.get('Retry-After'));
+    this.serverMessage = typeof response.error?.message === 'string' ? response.error.message : null;
+  }
+
+  // Message for the user, preferring the server's explanation for request errors
+  get userMessage(): string {
+    switch (this.kind) {
+      case 'offline':
+        return 'Unable to connect to server. Please check your connection.';
+      case 'unavailable':
+        return 'The server is temporarily unavailable. Please try again shortly.';
+      case 'rateLimited':
+        return 'Too many requests. Please wait a moment and try again.';
+      case 'unauthorized':
+        return 'Your session has expired. Please log in again.';
+      case 'forbidden':
+        return this.serverMessage || 'You do not have permission to do that.';
+      case 'notFound':
+        return this.serverMessage || 'Not found.';
+      case 'conflict':
+        return this.serverMessage || 'This food was changed by someone else. Reload it and try again.';
+      case 'client':
+        return this.serverMessage || `Request failed: ${this.statusText}`;
+      default:
+        return 'Server error occurred. Please try again later.';
+    }
+  }
+}
+
+/**
+ * Message to show for any error from an API call
+ * @param error - ApiError, HttpErrorResponse, ApiResponseError or any other Error
+ * @param fallback - Used when the error carries no message
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiError) {
+    return error.userMessage;
+  }
+  if (error instanceof HttpErrorResponse) {
+    return new ApiError(error).userMessage;
+  }
+  if (error instanceof ApiResponseError) {
+    return 'The server sent data in an unexpected format.';
+  }
+  return (error as Error)?.message || fallback;
+}
@@ -0,0 +1,16 @@
+// Deployment settings loaded from assets/config.json at startup (one build serves every environment)
+export interface AppConfig {
+  // Foods API base URL, e.g. https://yehapi.example.net/api
+  apiUrl: string;
+  // Image API origin (yeh-image), e.g. https://yehapi.example.net or http://localhost:8081
+  imageApiUrl: string;
+  auth0: {
+    domain: string;
+    clientId: string;
+    audience: string;
+  };
+  // Extra URL patterns that get an Auth0 access token - the apiUrl and imageApiUrl origins always do
+  allowedList?: string[];
+  // Access token claim holding the user's roles (defaults to "<audience>/roles")
+  rolesClaim?: string;
+}
@@ -0,0 +1,24 @@
+import { FoodMetadataUpdate } from './food.model';
+
+// Display labels for the editable metadata fields
+export const METADATA_FIELD_LABELS: { [K in keyof FoodMetadataUpdate]-?: string } = {
+  shortDescription: 'Short Description',
+  glycemicIndex: 'GI',
+  glycemicLoad: 'Load',
+  yehApproved: 'YEH Approved'
+};
+
+/**
+ * Format a metadata value for display
+ * @param value - Field value (null/undefined/empty when not set)
+ * @param empty - Shown for a value that isn't set
+ */
+export function formatMetadataValue(value: unknown, empty: string = '—'): string {
+  if (value === null || value === undefined || value === '') {
+    return empty;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  return String(value);
+}
@@ -13,6 +13,7 @@ export interface Food {
   foodImage?: string;
   foodImageThumbnail?: string;
   nutritionFactsStatus?: string;
+  etag?: string;  // Version of this copy (ETag from the API) - sent as If-Match so edits can't overwrite newer changes
 }
 
 export interface FoodMetadataUpdate {
@@ -22,6 +23,11 @@ export interface FoodMetadataUpdate {
   yehApproved?: boolean;
 }
 
+// Partial NutritionFacts update - only changed fields are sent, null clears a value
+export type NutritionFactsUpdate = {
+  [K in keyof NutritionFacts]?: NutritionFacts[K] | null;
+};
+
 export interface NutritionFacts {
   foodName: string;
   calories: number;
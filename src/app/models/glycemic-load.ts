@@ -0,0 +1,87 @@
+import { Food } from './food.model';
+import { getServingMultiplier } from './nutrition-fields';
+
+// Default allowed difference between stored and computed GL (GL units)
+export const GLYCEMIC_LOAD_TOLERANCE = 1;
+
+export type GlycemicLoadCheckStatus = 'ok' | 'mismatch' | 'missing' | 'unavailable';
+
+// Result of comparing a stored GL with the GL derived from GI and carbs
+export interface GlycemicLoadCheck {
+  status: GlycemicLoadCheckStatus;
+  computed: number | null;
+  stored: number | null;
+  // stored - computed (null unless both are known)
+  difference: number | null;
+  availableCarbsG: number | null;
+  reason?: string;
+}
+
+/**
+ * Available carbohydrate per serving (total carbs - fiber)
+ * @param food - Food with per-100g nutritionFacts
+ * @returns Grams per serving, or null when carbs are unknown
+ */
+export function getAvailableCarbsPerServing(food: Food): number | null {
+  const nf = food.nutritionFacts;
+  if (typeof nf?.totalCarbohydrateG !== 'number') {
+    return null;
+  }
+  const available = Math.max(nf.totalCarbohydrateG - (nf.dietaryFiberG || 0), 0);
+  return Math.round(available * getServingMultiplier(food, true) * 10) / 10;
+}
+
+/**
+ * GL = GI × available carbs per serving / 100
+ * @param glycemicIndex - GI (0-100)
+ * @param food - Food with per-100g nutritionFacts
+ * @returns GL rounded to 1 decimal, or null when GI or carbs are unknown
+ */
+export function calculateGlycemicLoad(glycemicIndex: number | null | undefined, food: Food): number | null {
+  const carbs = getAvailableCarbsPerServing(food);
+  if (glycemicIndex === null || glycemicIndex === undefined || carbs === null) {
+    return null;
+  }
+  return Math.round(glycemicIndex * carbs / 10) / 10;
+}
+
+/**
+ * Compare a GL value against the GL computed from GI and nutrition facts
+ * @param food - Food with per-100g nutritionFacts
+ * @param glycemicIndex - GI to use (defaults to the food's GI, e.g. pass the unsaved form value)
+ * @param glycemicLoad - GL to check (defaults to the food's GL)
+ * @param tolerance - Allowed absolute difference
+ */
+export function checkGlycemicLoad(
+  food: Food,
+  glycemicIndex: number | null | undefined = food.glycemicIndex,
+  glycemicLoad: number | null | undefined = food.glycemicLoad,
+  tolerance: number = GLYCEMIC_LOAD_TOLERANCE
+): GlycemicLoadCheck {
+  const stored = glycemicLoad ?? null;
+  const availableCarbsG = getAvailableCarbsPerServing(food);
+  const computed = calculateGlycemicLoad(glycemicIndex, food);
+
+  if (computed === null) {
+    return {
+      status: 'unavailable',
+      computed,
+      stored,
+      difference: null,
+      availableCarbsG,
+      reason: availableCarbsG === null ? 'No carbohydrate data' : 'No GI'
+    };
+  }
+  if (stored === null) {
+    return { status: 'missing', computed, stored, difference: null, availableCarbsG, reason: 'No GL stored' };
+  }
+
+  const difference = Math.round((stored - computed) * 10) / 10;
+  return {
+    status: Math.abs(difference) > tolerance ? 'mismatch' : 'ok',
+    computed,
+    stored,
+    difference,
+    availableCarbsG
+  };
+}
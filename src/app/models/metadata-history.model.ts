@@ -0,0 +1,34 @@
+import { Food, FoodMetadataUpdate } from './food.model';
+
+export type MetadataField = keyof FoodMetadataUpdate;
+
+// Values of the metadata fields at one point in time
+export type MetadataSnapshot = Pick<Food, 'shortDescription' | 'glycemicIndex' | 'glycemicLoad' | 'yehApproved'>;
+
+// Where a metadata change came from
+export type MetadataChangeSource = 'edit' | 'bulk' | 'import' | 'glCheck' | 'offline' | 'revert';
+
+export interface MetadataFieldChange {
+  field: MetadataField;
+  oldValue: string | number | boolean | null;
+  newValue: string | number | boolean | null;
+}
+
+// One FoodMetadataUpdate sent for a food
+export interface MetadataChange {
+  id: string;
+  foodId: number;
+  timestamp: string;
+  user: string | null;
+  source: MetadataChangeSource;
+  changes: MetadataFieldChange[];
+}
+
+
+// A save rejected because the food changed on the server after it was loaded
+export interface MetadataConflict {
+  food: Food;                    // Current server copy (its etag is used for the resolved save)
+  mine: MetadataSnapshot;        // Values the editor tried to save
+  original: MetadataSnapshot;    // Values the editor loaded before editing
+  server: MetadataSnapshot;      // Values now on the server
+}
@@ -0,0 +1,119 @@
+import { Food, NutritionFacts } from './food.model';
+
+// Numeric keys of NutritionFacts (everything except foodName and servingSizeHousehold)
+export type NutritionFactNumericKey = {
+  [K in keyof NutritionFacts]: NutritionFacts[K] extends number ? K : never
+}[keyof NutritionFacts];
+
+export type NutritionUnit = 'kcal' | 'g' | 'mg' | 'mcg' | '';
+
+// Field definition used to build editors and displays for NutritionFacts
+export interface NutritionFactField {
+  key: NutritionFactNumericKey;
+  label: string;
+  unit: NutritionUnit;
+  min: number;
+  max: number;
+  step: number;
+  // Nutrients scale with portion size; serving info does not
+  isNutrient: boolean;
+  // Which direction is nutritionally better (used to rank foods); undefined = not ranked
+  better?: 'lower' | 'higher';
+}
+
+// Ranges are for values stored per 100g (servingSizeG/servingsPerContainer excepted)
+// Grams can never exceed 100 per 100g, and pure fat tops out at 900 kcal.
+export const NUTRITION_FACT_FIELDS: NutritionFactField[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal', min: 0, max: 900, step: 1, isNutrient: true, better: 'lower' },
+  { key: 'totalFatG', label: 'Total Fat', unit: 'g', min: 0, max: 100, step: 0.1, isNutrient: true, better: 'lower' },
+  { key: 'saturatedFatG', label: 'Saturated Fat', unit: 'g', min: 0, max: 100, step: 0.1, isNutrient: true, better: 'lower' },
+  { key: 'transFatG', label: 'Trans Fat', unit: 'g', min: 0, max: 100, step: 0.1, isNutrient: true, better: 'lower' },
+  { key: 'cholesterolMG', label: 'Cholesterol', unit: 'mg', min: 0, max: 3000, step: 1, isNutrient: true, better: 'lower' },
+  { key: 'sodiumMG', label: 'Sodium', unit: 'mg', min: 0, max: 40000, step: 1, isNutrient: true, better: 'lower' },
+  { key: 'totalCarbohydrateG', label: 'Total Carbohydrate', unit: 'g', min: 0, max: 100, step: 0.1, isNutrient: true, better: 'lower' },
+  { key: 'dietaryFiberG', label: 'Dietary Fiber', unit: 'g', min: 0, max: 100, step: 0.1, isNutrient: true, better: 'higher' },
+  { key: 'totalSugarsG', label: 'Total Sugars', unit: 'g', min: 0, max: 100, step: 0.1, isNutrient: true, better: 'lower' },
+  { key: 'addedSugarsG', label: 'Added Sugars', unit: 'g', min: 0, max: 100, step: 0.1, isNutrient: true, better: 'lower' },
+  { key: 'proteinG', label: 'Protein', unit: 'g', min: 0, max: 100, step: 0.1, isNutrient: true, better: 'higher' },
+  { key: 'vitaminDMcg', label: 'Vitamin D', unit: 'mcg', min: 0, max: 1000, step: 0.1, isNutrient: true, better: 'higher' },
+  { key: 'calciumMG', label: 'Calcium', unit: 'mg', min: 0, max: 40000, step: 1, isNutrient: true, better: 'higher' },
+  { key: 'ironMG', label: 'Iron', unit: 'mg', min: 0, max: 1000, step: 0.1, isNutrient: true, better: 'higher' },
+  { key: 'potassiumMG', label: 'Potassium', unit: 'mg', min: 0, max: 40000, step: 1, isNutrient: true, better: 'higher' },
+  { key: 'servingSizeG', label: 'Serving Size', unit: 'g', min: 0, max: 5000, step: 0.1, isNutrient: false },
+  { key: 'servingsPerContainer', label: 'Servings Per Container', unit: '', min: 0, max: 1000, step: 0.1, isNutrient: false }
+];
+
+// Only the nutrient rows (used by displays that scale values by portion)
+export const NUTRIENT_FIELDS: NutritionFactField[] = NUTRITION_FACT_FIELDS.filter(f => f.isNutrient);
+
+/**
+ * Multiplier that converts stored per-100g values for display
+ * Per-serving uses servingSizeG/100 when available, otherwise servingSizeMultiplicand
+ * @param food - Food whose nutritionFacts are being displayed
+ * @param perServing - true for per-serving, false for per-100g
+ */
+export function getServingMultiplier(food: Food | null | undefined, perServing: boolean): number {
+  if (!perServing || !food) {
+    return 1;
+  }
+  const nf = food.nutritionFacts;
+  if (nf?.servingSizeG && nf.servingSizeG > 0) {
+    return nf.servingSizeG / 100;
+  }
+  if (food.servingSizeMultiplicand && food.servingSizeMultiplicand !== 1) {
+    return food.servingSizeMultiplicand;
+  }
+  return 1;
+}
+
+export type PortionUnit = 'g' | 'serving' | 'container';
+
+// Custom portion from the detail view portion scaler
+export interface Portion {
+  amount: number;
+  unit: PortionUnit;
+}
+
+/**
+ * Grams in one serving - servingSizeG, otherwise derived from servingSizeMultiplicand (100g when neither is set)
+ * @param food - Food whose serving size is needed
+ */
+export function getServingGrams(food: Food | null | undefined): number {
+  return Math.round(getServingMultiplier(food, true) * 100 * 10) / 10;
+}
+
+/**
+ * Multiplier that converts stored per-100g values to a custom portion
+ * @param food - Food whose nutritionFacts are being displayed
+ * @param portion - Grams, servings, or fraction of a container
+ * @returns Multiplier, or null when the portion can't be computed (no servingsPerContainer)
+ */
+export function getPortionMultiplier(food: Food | null | undefined, portion: Portion): number | null {
+  switch (portion.unit) {
+    case 'g':
+      return portion.amount / 100;
+    case 'serving':
+      return portion.amount * getServingMultiplier(food, true);
+    case 'container': {
+      const servings = food?.nutritionFacts?.servingsPerContainer;
+      return servings ? portion.amount * servings * getServingMultiplier(food, true) : null;
+    }
+  }
+}
+
+/**
+ * Human-readable portion, e.g. "250g", "2 servings (60g)" or "0.5 container (120g)"
+ * @param food - Food the portion applies to
+ * @param portion - Portion to describe
+ */
+export function describePortion(food: Food | null | undefined, portion: Portion): string {
+  const multiplier = getPortionMultiplier(food, portion);
+  const grams = multiplier === null ? null : Math.round(multiplier * 100 * 10) / 10;
+  if (portion.unit === 'g') {
+    return `${portion.amount}g`;
+  }
+  const noun = portion.unit === 'serving'
+    ? (portion.amount === 1 ? 'serving' : 'servings')
+    : (portion.amount === 1 ? 'container' : 'containers');
+  return grams === null ? `${portion.amount} ${noun}` : `${portion.amount} ${noun} (${grams}g)`;
+}
@@ -0,0 +1,144 @@
+import { Food, NutritionFacts } from './food.model';
+import { NUTRITION_FACT_FIELDS } from './nutrition-fields';
+
+export type NutritionIssueSeverity = 'error' | 'warning';
+
+// One failed validation rule for a food's NutritionFacts
+export interface NutritionIssue {
+  ruleId: string;
+  severity: NutritionIssueSeverity;
+  title: string;
+  explanation: string;
+}
+
+// A validation rule - returns null when the data passes (or the values it needs are missing)
+export interface NutritionRule {
+  id: string;
+  severity: NutritionIssueSeverity;
+  title: string;
+  check: (nf: NutritionFacts) => string | null;
+}
+
+// Calories may differ from 4/4/9 × macros by this much (fiber, polyols, alcohol and rounding)
+const CALORIE_TOLERANCE_PCT = 20;
+const CALORIE_TOLERANCE_KCAL = 20;
+
+const num = (value: unknown): number | null => typeof value === 'number' ? value : null;
+
+// "part" must not exceed "whole" (both per 100g)
+function notGreaterThan(partKey: keyof NutritionFacts, partLabel: string,
+                        wholeKey: keyof NutritionFacts, wholeLabel: string) {
+  return (nf: NutritionFacts): string | null => {
+    const part = num(nf[partKey]);
+    const whole = num(nf[wholeKey]);
+    if (part === null || whole === null || part <= whole) {
+      return null;
+    }
+    return `${partLabel} (${part}g) is greater than ${wholeLabel} (${whole}g), which is impossible - ` +
+      `${partLabel} is part of ${wholeLabel}.`;
+  };
+}
+
+export const NUTRITION_RULES: NutritionRule[] = [
+  {
+    id: 'sugarsExceedCarbs',
+    severity: 'error',
+    title: 'Sugars exceed total carbohydrate',
+    check: notGreaterThan('totalSugarsG', 'Total Sugars', 'totalCarbohydrateG', 'Total Carbohydrate')
+  },
+  {
+    id: 'fiberExceedsCarbs',
+    severity: 'error',
+    title: 'Fiber exceeds total carbohydrate',
+    check: notGreaterThan('dietaryFiberG', 'Dietary Fiber', 'totalCarbohydrateG', 'Total Carbohydrate')
+  },
+  {
+    id: 'addedSugarsExceedSugars',
+    severity: 'error',
+    title: 'Added sugars exceed total sugars',
+    check: notGreaterThan('addedSugarsG', 'Added Sugars', 'totalSugarsG', 'Total Sugars')
+  },
+  {
+    id: 'saturatedFatExceedsFat',
+    severity: 'error',
+    title: 'Saturated fat exceeds total fat',
+    check: notGreaterThan('saturatedFatG', 'Saturated Fat', 'totalFatG', 'Total Fat')
+  },
+  {
+    id: 'transFatExceedsFat',
+    severity: 'error',
+    title: 'Trans fat exceeds total fat',
+    check: notGreaterThan('transFatG', 'Trans Fat', 'totalFatG', 'Total Fat')
+  },
+  {
+    id: 'macrosExceedWeight',
+    severity: 'error',
+    title: 'Macronutrients exceed 100g',
+    check: nf => {
+      const fat = num(nf.totalFatG) ?? 0;
+      const carbs = num(nf.totalCarbohydrateG) ?? 0;
+      const protein = num(nf.proteinG) ?? 0;
+      const total = Math.round((fat + carbs + protein) * 10) / 10;
+      return total > 100
+        ? `Fat + carbohydrate + protein add up to ${total}g per 100g of food. ` +
+          'Values may have been read per serving instead of per 100g.'
+        : null;
+    }
+  },
+  {
+    id: 'caloriesMismatch',
+    severity: 'warning',
+    title: 'Calories don\'t match macronutrients',
+    check: nf => {
+      const calories = num(nf.calories);
+      const fat = num(nf.totalFatG);
+      const carbs = num(nf.totalCarbohydrateG);
+      const protein = num(nf.proteinG);
+      if (calories === null || fat === null || carbs === null || protein === null) {
+        return null;
+      }
+      const expected = Math.round(4 * carbs + 4 * protein + 9 * fat);
+      const difference = Math.abs(calories - expected);
+      if (difference <= CALORIE_TOLERANCE_KCAL || difference <= expected * CALORIE_TOLERANCE_PCT / 100) {
+        return null;
+      }
+      return `Calories are ${calories} kcal, but 4 × carbs + 4 × protein + 9 × fat = ${expected} kcal ` +
+        `(off by more than ${CALORIE_TOLERANCE_PCT}%). One of the values was probably misread.`;
+    }
+  },
+  {
+    id: 'outOfRange',
+    severity: 'error',
+    title: 'Value outside possible range',
+    check: nf => {
+      const problems = NUTRITION_FACT_FIELDS
+        .filter(field => {
+          const value = num(nf[field.key]);
+          return value !== null && (value < field.min || value > field.max);
+        })
+        .map(field => `${field.label} ${nf[field.key]}${field.unit ? ' ' + field.unit : ''} ` +
+          `(allowed ${field.min}-${field.max}${field.isNutrient ? ' per 100g' : ''})`);
+      return problems.length > 0 ? problems.join('; ') : null;
+    }
+  }
+];
+
+/**
+ * Run every rule against a food's NutritionFacts
+ * @param food - Food to validate
+ * @returns Failed rules (empty when the data passes or there are no nutrition facts yet)
+ */
+export function validateNutritionFacts(food: Food): NutritionIssue[] {
+  const nf = food.nutritionFacts;
+  if (!nf) {
+    return [];
+  }
+  const issues: NutritionIssue[] = [];
+  NUTRITION_RULES.forEach(rule => {
+    const explanation = rule.check(nf);
+    if (explanation) {
+      issues.push({ ruleId: rule.id, severity: rule.severity, title: rule.title, explanation });
+    }
+  });
+  return issues;
+}
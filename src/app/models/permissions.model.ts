@@ -0,0 +1,30 @@
+export type UserRole = 'viewer' | 'editor' | 'approver' | 'admin';
+
+// Auth0 RBAC permission names (the access token's "permissions" claim)
+export type Permission = 'read:foods' | 'edit:foods' | 'approve:foods' | 'upload:images';
+
+export const ALL_PERMISSIONS: Permission[] = ['read:foods', 'edit:foods', 'approve:foods', 'upload:images'];
+
+// What each role may do - roles build on each other
+export const ROLE_PERMISSIONS: { [R in UserRole]: Permission[] } = {
+  viewer: ['read:foods'],
+  editor: ['read:foods', 'edit:foods', 'upload:images'],
+  approver: ['read:foods', 'edit:foods', 'upload:images', 'approve:foods'],
+  admin: ALL_PERMISSIONS
+};
+
+export const ROLE_LABELS: { [R in UserRole]: string } = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  approver: 'Approver',
+  admin: 'Admin'
+};
+
+// Roles and permissions of the signed-in user
+export interface UserAccess {
+  isAuthenticated: boolean;
+  roles: UserRole[];
+  permissions: Permission[];
+}
+
+export const NO_ACCESS: UserAccess = { isAuthenticated: false, roles: [], permissions: [] };
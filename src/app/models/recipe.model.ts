@@ -0,0 +1,33 @@
+import { NutritionFacts } from './food.model';
+
+// Food added to a recipe - keeps a snapshot of the per-100g data so saved recipes reopen offline
+export interface RecipeIngredient {
+  foodId: number;
+  description: string;
+  grams: number;
+  glycemicIndex: number | null;
+  yehApproved: boolean;
+  nutritionFacts: NutritionFacts | null;
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  ingredients: RecipeIngredient[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Computed totals for a recipe
+export interface RecipeSummary {
+  totalGrams: number;
+  // Summed nutrients (numeric NutritionFacts fields only)
+  nutrients: { [key: string]: number };
+  availableCarbsG: number;
+  glycemicLoad: number | null;
+  glycemicIndex: number | null;
+  // Ingredients with carbs but no GI (excluded from GL)
+  missingGlycemicIndex: RecipeIngredient[];
+  missingNutritionFacts: RecipeIngredient[];
+  notYehApproved: RecipeIngredient[];
+}
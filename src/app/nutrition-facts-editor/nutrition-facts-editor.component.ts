@@ -0,0 +1,206 @@
+import { Component, Input, Output, EventEmitter, OnChanges, SimpleChanges } from '@angular/core';
+import { FormControl, FormGroup, Validators } from '@angular/forms';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { HttpErrorResponse } from '@angular/common/http';
+import { YehApiService } from '../services/yeh-api.service';
+import { ErrorAnnouncerService } from '../services/error-announcer.service';
+import { Food, NutritionFacts, NutritionFactsUpdate } from '../models/food.model';
+import { NUTRITION_FACT_FIELDS, NutritionFactField } from '../models/nutrition-fields';
+
+type NutritionFactsValues = { [K in keyof NutritionFacts]: NutritionFacts[K] | null };
+
+@Component({
+  selector: 'app-nutrition-facts-editor',
+  templateUrl: './nutrition-facts-editor.component.html',
+  styleUrls: ['./nutrition-facts-editor.component.scss']
+})
+export class NutritionFactsEditorComponent implements OnChanges {
+  @Input() food: Food | null = null;
+
+  @Output() saved = new EventEmitter<Food>();
+  @Output() cancelled = new EventEmitter<void>();
+
+  readonly fields: NutritionFactField[] = NUTRITION_FACT_FIELDS;
+
+  form: FormGroup = this.buildForm();
+  isSaving = false;
+  // The food was refreshed with other nutrition facts while the form had unsaved edits
+  hasServerUpdate = false;
+
+  // Track original values to detect changes (same approach as FoodsComponent.originalMetadata)
+  private originalValues: NutritionFactsValues = this.emptyValues();
+
+  constructor(
+    private foodsService: YehApiService,
+    private snackBar: MatSnackBar,
+    private errors: ErrorAnnouncerService
+  ) {}
+
+  ngOnChanges(changes: SimpleChanges) {
+    const change = changes['food'];
+    if (!change) {
+      return;
+    }
+
+    // The same food re-fetched (OCR polling, cache revalidation, outbox sync) keeps unsaved edits
+    const previous: Food | null = change.previousValue;
+    if (!change.firstChange && previous?.id === this.food?.id && this.hasChanges()) {
+      this.hasServerUpdate = this.hasServerUpdate || !this.isSameValues(this.valuesOf(this.food), this.originalValues);
+      return;
+    }
+    this.populateFields(this.food);
+  }
+
+  private buildForm(): FormGroup {
+    const controls: { [key: string]: FormControl } = {
+      foodName: new FormControl<string | null>(null, [Validators.maxLength(200)]),
+      servingSizeHousehold: new FormControl<string | null>(null, [Validators.maxLength(100)])
+    };
+    NUTRITION_FACT_FIELDS.forEach(field => {
+      controls[field.key] = new FormControl<number | null>(null, [
+        Validators.min(field.min),
+        Validators.max(field.max)
+      ]);
+    });
+    return new FormGroup(controls);
+  }
+
+  private emptyValues(): NutritionFactsValues {
+    return NUTRITION_FACT_FIELDS.reduce(
+      (values, field) => ({ ...values, [field.key]: null }),
+      { foodName: null, servingSizeHousehold: null } as NutritionFactsValues
+    );
+  }
+
+  // Populate form from the food's nutritionFacts (all null when not yet extracted)
+  private populateFields(food: Food | null): void {
+    const values = this.valuesOf(food);
+    this.form.reset(values);
+    this.originalValues = values;
+    this.hasServerUpdate = false;
+  }
+
+  private valuesOf(food: Food | null): NutritionFactsValues {
+    const values = this.emptyValues();
+    const nf = food?.nutritionFacts;
+    if (nf) {
+      const copy = <K extends keyof NutritionFacts>(key: K) => values[key] = nf[key] ?? null;
+      (Object.keys(values) as (keyof NutritionFacts)[]).forEach(copy);
+    }
+    return values;
+  }
+
+  private isSameValues(a: NutritionFactsValues, b: NutritionFactsValues): boolean {
+    return (Object.keys(a) as (keyof NutritionFacts)[]).every(key => a[key] === b[key]);
+  }
+
+  /**
+   * Discard unsaved edits and load the nutrition facts the server has now
+   */
+  loadServerValues(): void {
+    this.populateFields(this.food);
+  }
+
+  // Normalize a control value for comparison/sending (empty strings become null)
+  private currentValue<K extends keyof NutritionFacts>(key: K): NutritionFacts[K] | null {
+    const value = this.form.get(key)?.value;
+    if (value === '' || value === undefined) {
+      return null;
+    }
+    return typeof value === 'string' ? value.trim() || null : value;
+  }
+
+  // Check if any NutritionFacts field has been modified
+  hasChanges(): boolean {
+    return Object.keys(this.buildUpdate()).length > 0;
+  }
+
+  // Only include fields that have changed
+  private buildUpdate(): NutritionFactsUpdate {
+    const update: NutritionFactsUpdate = {};
+    const addIfChanged = <K extends keyof NutritionFacts>(key: K) => {
+      const current = this.currentValue(key);
+      if (current !== this.originalValues[key]) {
+        update[key] = current;
+      }
+    };
+    (Object.keys(this.originalValues) as (keyof NutritionFacts)[]).forEach(addIfChanged);
+    return update;
+  }
+
+  isChanged(key: keyof NutritionFacts): boolean {
+    return this.currentValue(key) !== this.originalValues[key];
+  }
+
+  // Validation message for a numeric field
+  getErrorMessage(field: NutritionFactField): string {
+    const control = this.form.get(field.key);
+    const unit = field.unit ? ` ${field.unit}` : '';
+    if (control?.hasError('min')) {
+      return `Must be at least ${field.min}${unit}`;
+    }
+    if (control?.hasError('max')) {
+      return field.isNutrient
+        ? `Must be at most ${field.max}${unit} per 100g`
+        : `Must be at most ${field.max}${unit}`;
+    }
+    return '';
+  }
+
+  // Reset to the latest server values when the food was updated while editing
+  resetChanges(): void {
+    if (this.hasServerUpdate) {
+      this.populateFields(this.food);
+      return;
+    }
+    this.form.reset(this.originalValues);
+  }
+
+  cancel(): void {
+    this.resetChanges();
+    this.cancelled.emit();
+  }
+
+  // Save changed NutritionFacts fields to backend
+  save(): void {
+    if (!this.food?.id) {
+      this.snackBar.open('No food selected', 'Close', { duration: 3000 });
+      return;
+    }
+
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      this.snackBar.open('Please fix the highlighted values', 'Close', { duration: 3000 });
+      return;
+    }
+
+    const update = this.buildUpdate();
+    if (Object.keys(update).length === 0) {
+      this.snackBar.open('No changes to save', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.isSaving = true;
+
+    this.foodsService.updateNutritionFacts(this.food.id, update).subscribe({
+      next: (updatedFood) => {
+        this.isSaving = false;
+        this.food = updatedFood;
+        this.populateFields(updatedFood);
+
+        this.snackBar.open('Nutrition facts saved successfully', 'Close', {
+          duration: 3000,
+          horizontalPosition: 'center',
+          verticalPosition: 'top',
+          panelClass: ['info-snackbar']
+        });
+
+        this.saved.emit(updatedFood);
+      },
+      error: (error: HttpErrorResponse) => {
+        this.isSaving = false;
+        this.errors.announce(error, 'Failed to save nutrition facts');
+      }
+    });
+  }
+}
@@ -0,0 +1,210 @@
+import { Component, ElementRef, Input, OnChanges, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { Food, NutritionFacts } from '../models/food.model';
+import {
+  NutritionFactNumericKey,
+  Portion,
+  describePortion,
+  getPortionMultiplier,
+  getServingMultiplier
+} from '../models/nutrition-fields';
+
+type LabelRounding = 'calories' | 'fat' | 'cholesterol' | 'sodium' | 'grams' | 'micro';
+
+// One line on the label
+interface LabelRow {
+  key: NutritionFactNumericKey;
+  label: string;
+  unit: string;
+  // FDA Daily Value (2020 label rules); undefined = no %DV shown
+  dailyValue?: number;
+  rounding: LabelRounding;
+  indent?: 1 | 2;
+  bold?: boolean;
+  // Added sugars are shown as "Includes Xg Added Sugars"
+  includes?: boolean;
+}
+
+interface LabelLine {
+  row: LabelRow;
+  amount: string;
+  percentDV: number | null;
+}
+
+const MACRO_ROWS: LabelRow[] = [
+  { key: 'totalFatG', label: 'Total Fat', unit: 'g', dailyValue: 78, rounding: 'fat', bold: true },
+  { key: 'saturatedFatG', label: 'Saturated Fat', unit: 'g', dailyValue: 20, rounding: 'fat', indent: 1 },
+  { key: 'transFatG', label: 'Trans Fat', unit: 'g', rounding: 'fat', indent: 1 },
+  { key: 'cholesterolMG', label: 'Cholesterol', unit: 'mg', dailyValue: 300, rounding: 'cholesterol', bold: true },
+  { key: 'sodiumMG', label: 'Sodium', unit: 'mg', dailyValue: 2300, rounding: 'sodium', bold: true },
+  { key: 'totalCarbohydrateG', label: 'Total Carbohydrate', unit: 'g', dailyValue: 275, rounding: 'grams', bold: true },
+  { key: 'dietaryFiberG', label: 'Dietary Fiber', unit: 'g', dailyValue: 28, rounding: 'grams', indent: 1 },
+  { key: 'totalSugarsG', label: 'Total Sugars', unit: 'g', rounding: 'grams', indent: 1 },
+  { key: 'addedSugarsG', label: 'Added Sugars', unit: 'g', dailyValue: 50, rounding: 'grams', indent: 2, includes: true },
+  { key: 'proteinG', label: 'Protein', unit: 'g', rounding: 'grams', bold: true }
+];
+
+const MICRO_ROWS: LabelRow[] = [
+  { key: 'vitaminDMcg', label: 'Vitamin D', unit: 'mcg', dailyValue: 20, rounding: 'micro' },
+  { key: 'calciumMG', label: 'Calcium', unit: 'mg', dailyValue: 1300, rounding: 'micro' },
+  { key: 'ironMG', label: 'Iron', unit: 'mg', dailyValue: 18, rounding: 'micro' },
+  { key: 'potassiumMG', label: 'Potassium', unit: 'mg', dailyValue: 4700, rounding: 'micro' }
+];
+
+@Component({
+  selector: 'app-nutrition-label',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatIconModule,
+    MatButtonModule,
+    MatTooltipModule
+  ],
+  templateUrl: './nutrition-label.component.html',
+  styleUrls: ['./nutrition-label.component.scss']
+})
+export class NutritionLabelComponent implements OnChanges {
+  @Input() food: Food | null = null;
+  @Input() perServing = true;
+  // Custom portion from the portion scaler (overrides perServing)
+  @Input() portion: Portion | null = null;
+
+  @ViewChild('label') labelElement?: ElementRef<HTMLElement>;
+
+  macroLines: LabelLine[] = [];
+  microLines: LabelLine[] = [];
+  calories = '—';
+  basisLabel = '';
+  servingsPerContainer: string | null = null;
+  isPortion = false;
+
+  ngOnChanges() {
+    this.buildLabel();
+  }
+
+  private buildLabel(): void {
+    const nf = this.food?.nutritionFacts;
+    const portionMultiplier = this.portion ? getPortionMultiplier(this.food, this.portion) : null;
+    const multiplier = portionMultiplier ?? getServingMultiplier(this.food, this.perServing);
+    this.isPortion = portionMultiplier !== null;
+
+    this.macroLines = MACRO_ROWS.map(row => this.buildLine(row, nf, multiplier));
+    this.microLines = MICRO_ROWS.map(row => this.buildLine(row, nf, multiplier));
+
+    const calories = this.scaled(nf?.calories, multiplier);
+    this.calories = calories === null ? '—' : String(this.roundCalories(calories));
+
+    this.basisLabel = this.isPortion ? describePortion(this.food, this.portion!) : this.getBasisLabel(nf);
+    this.servingsPerContainer = (this.perServing || this.isPortion) && nf?.servingsPerContainer
+      ? `${Math.round(nf.servingsPerContainer * 10) / 10} servings per container`
+      : null;
+  }
+
+  private buildLine(row: LabelRow, nf: NutritionFacts | null | undefined, multiplier: number): LabelLine {
+    const value = this.scaled(nf?.[row.key], multiplier);
+    if (value === null) {
+      return { row, amount: '—', percentDV: null };
+    }
+    return {
+      row,
+      amount: this.formatAmount(value, row),
+      percentDV: row.dailyValue ? Math.round(value / row.dailyValue * 100) : null
+    };
+  }
+
+  private scaled(value: number | null | undefined, multiplier: number): number | null {
+    return typeof value === 'number' ? value * multiplier : null;
+  }
+
+  private getBasisLabel(nf: NutritionFacts | null | undefined): string {
+    if (!this.perServing) {
+      return '100g';
+    }
+    const grams = nf?.servingSizeG ? `${Math.round(nf.servingSizeG)}g` : '';
+    if (nf?.servingSizeHousehold && grams) {
+      return `${nf.servingSizeHousehold} (${grams})`;
+    }
+    return nf?.servingSizeHousehold || grams || '1 serving';
+  }
+
+  // FDA rounding: < 5 → 0, ≤ 50 → nearest 5, above → nearest 10
+  private roundCalories(value: number): number {
+    if (value < 5) {
+      return 0;
+    }
+    return value <= 50 ? Math.round(value / 5) * 5 : Math.round(value / 10) * 10;
+  }
+
+  // FDA label rounding for each nutrient type (21 CFR 101.9)
+  private formatAmount(value: number, row: LabelRow): string {
+    const unit = row.unit;
+    switch (row.rounding) {
+      case 'fat':
+        if (value < 0.5) {
+          return `0${unit}`;
+        }
+        return value < 5 ? `${Math.round(value * 2) / 2}${unit}` : `${Math.round(value)}${unit}`;
+      case 'cholesterol':
+        if (value < 2) {
+          return `0${unit}`;
+        }
+        return value <= 5 ? `less than 5${unit}` : `${Math.round(value / 5) * 5}${unit}`;
+      case 'sodium':
+        if (value < 5) {
+          return `0${unit}`;
+        }
+        return value <= 140 ? `${Math.round(value / 5) * 5}${unit}` : `${Math.round(value / 10) * 10}${unit}`;
+      case 'grams':
+        if (value < 0.5) {
+          return `0${unit}`;
+        }
+        return value < 1 ? `less than 1${unit}` : `${Math.round(value)}${unit}`;
+      default:
+        return `${Math.round(value * 10) / 10}${unit}`;
+    }
+  }
+
+  hasNutritionFacts(): boolean {
+    return !!this.food?.nutritionFacts;
+  }
+
+  // Print only the label (copies the page styles into a new window)
+  print(): void {
+    const label = this.labelElement?.nativeElement;
+    if (!label) {
+      return;
+    }
+    const printWindow = window.open('', '_blank', 'width=420,height=700');
+    if (!printWindow) {
+      return;
+    }
+
+    const styles = Array.from(document.querySelectorAll('style, link[rel="stylesheet"]'))
+      .map(element => element.outerHTML)
+      .join('\n');
+    const title = this.food?.description || 'Nutrition Facts';
+
+    printWindow.document.open();
+    printWindow.document.write(
+      `<!DOCTYPE html><html><head><title>${this.escapeHtml(title)}</title>${styles}</head>` +
+      `<body class="nutrition-label-print">${label.outerHTML}</body></html>`
+    );
+    printWindow.document.close();
+    printWindow.focus();
+    // Give linked stylesheets a moment to load
+    setTimeout(() => {
+      printWindow.print();
+      printWindow.close();
+    }, 300);
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
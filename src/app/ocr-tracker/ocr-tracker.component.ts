@@ -0,0 +1,54 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { OcrJob, OcrTrackerService } from '../services/ocr-tracker.service';
+
+@Component({
+  selector: 'app-ocr-tracker',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatIconModule,
+    MatButtonModule,
+    MatProgressBarModule,
+    MatTooltipModule
+  ],
+  templateUrl: './ocr-tracker.component.html',
+  styleUrls: ['./ocr-tracker.component.scss']
+})
+export class OcrTrackerComponent {
+  jobs$ = this.tracker.jobs$;
+
+  constructor(public tracker: OcrTrackerService) {}
+
+  getStatusIcon(job: OcrJob): string {
+    switch (job.status) {
+      case 'completed': return 'check_circle';
+      case 'processing': return 'hourglass_empty';
+      case 'error': return 'error';
+      case 'timeout': return 'timer_off';
+      default: return 'schedule';
+    }
+  }
+
+  getStatusLabel(job: OcrJob): string {
+    switch (job.status) {
+      case 'pending': return 'Pending OCR processing...';
+      case 'processing': return 'AI is extracting nutrition facts...';
+      case 'completed': return 'Nutrition facts extracted';
+      case 'error': return 'Processing failed';
+      case 'timeout': return job.message || 'Timed out';
+    }
+  }
+
+  hasFinished(jobs: OcrJob[]): boolean {
+    return jobs.some(job => !this.tracker.isActive(job));
+  }
+
+  trackByFoodId(index: number, job: OcrJob): number {
+    return job.foodId;
+  }
+}
@@ -0,0 +1,59 @@
+import { Injectable } from '@angular/core';
+import { HttpErrorResponse, HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
+import { Observable, defer, throwError, timer } from 'rxjs';
+import { catchError, retry } from 'rxjs/operators';
+import { ApiError, RETRYABLE_STATUSES, parseRetryAfter } from '../models/api.model';
+
+/**
+ * Retries idempotent requests on connection/availability failures and raises every HTTP failure as ApiError
+ * Backoff doubles from BASE_DELAY_MS (with jitter) unless the server sends Retry-After
+ */
+@Injectable()
+export class ApiErrorInterceptor implements HttpInterceptor {
+  private readonly MAX_RETRIES = 3;
+  private readonly BASE_DELAY_MS = 500;
+  private readonly MAX_DELAY_MS = 8000;
+  // A longer Retry-After fails right away rather than leaving the UI waiting
+  private readonly MAX_RETRY_AFTER_MS = 30000;
+
+  intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    const isIdempotent = request.method === 'GET' || request.method === 'HEAD';
+
+    return defer(() => {
+      let attempts = 1;
+      return next.handle(request).pipe(
+        retry({
+          count: isIdempotent ? this.MAX_RETRIES : 0,
+          delay: (error, retryCount) => {
+            const delayMs = this.getRetryDelay(error, retryCount);
+            if (delayMs === null) {
+              return throwError(() => error);
+            }
+            attempts = retryCount + 1;
+            return timer(delayMs);
+          }
+        }),
+        catchError(error => throwError(() =>
+          error instanceof HttpErrorResponse && !(error instanceof ApiError) ? new ApiError(error, attempts) : error
+        ))
+      );
+    });
+  }
+
+  // Delay before the next attempt, or null when the error shouldn't be retried
+  private getRetryDelay(error: unknown, retryCount: number): number | null {
+    if (!(error instanceof HttpErrorResponse) || !RETRYABLE_STATUSES.includes(error.status)) {
+      return null;
+    }
+    // The browser knows it has no connection - fail fast so cached data can be shown
+    if (error.status === 0 && !navigator.onLine) {
+      return null;
+    }
+    const retryAfterMs = parseRetryAfter(error.headers?.get('Retry-After'));
+    if (retryAfterMs !== null) {
+      return retryAfterMs <= this.MAX_RETRY_AFTER_MS ? retryAfterMs : null;
+    }
+    const backoff = Math.min(this.BASE_DELAY_MS * 2 ** (retryCount - 1), this.MAX_DELAY_MS);
+    return backoff / 2 + Math.random() * backoff / 2;
+  }
+}
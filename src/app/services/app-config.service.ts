@@ -0,0 +1,108 @@
+import { Injectable } from '@angular/core';
+import { HttpBackend, HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { AppConfig } from '../models/app-config.model';
+import { APP_CONFIG_SCHEMA, validateResponse } from '../models/api-schemas';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AppConfigService {
+  private loaded: AppConfig | null = null;
+
+  // Bypasses the interceptors - the Auth0 interceptor can't be created until this config is loaded
+  private http: HttpClient;
+
+  constructor(httpBackend: HttpBackend) {
+    this.http = new HttpClient(httpBackend);
+  }
+
+  /**
+   * Load and validate the deployment config (run once by APP_INITIALIZER before the app starts)
+   * In development the git-ignored localConfigUrl, when present, is merged over configUrl
+   * Rejects when the file is missing or invalid, which stops the app from bootstrapping
+   */
+  async load(): Promise<AppConfig> {
+    let body = await this.fetch(environment.configUrl);
+    let endpoint = `GET ${environment.configUrl}`;
+    if (environment.localConfigUrl) {
+      const local = await this.fetchOptional(environment.localConfigUrl);
+      if (local !== null) {
+        body = this.merge(body, local);
+        endpoint += ` + ${environment.localConfigUrl}`;
+      }
+    }
+
+    const config = validateResponse<AppConfig>(APP_CONFIG_SCHEMA, body, endpoint);
+    this.loaded = {
+      ...config,
+      apiUrl: config.apiUrl.replace(/\/+$/, ''),
+      imageApiUrl: config.imageApiUrl.replace(/\/+$/, '')
+    };
+    return this.loaded;
+  }
+
+  private fetch(url: string): Promise<unknown> {
+    return firstValueFrom(this.http.get<unknown>(url, { headers: { 'Cache-Control': 'no-cache' } }));
+  }
+
+  // null when the file doesn't exist (the local override is optional)
+  private async fetchOptional(url: string): Promise<unknown> {
+    try {
+      return await this.fetch(url);
+    } catch (error: unknown) {
+      if (error instanceof HttpErrorResponse && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Override entries replace the base ones; auth0 is merged field by field
+  private merge(base: unknown, override: unknown): unknown {
+    if (!isRecord(base) || !isRecord(override)) {
+      return override;
+    }
+    const merged: Record<string, unknown> = { ...base, ...override };
+    if (isRecord(base['auth0']) && isRecord(override['auth0'])) {
+      merged['auth0'] = { ...base['auth0'], ...override['auth0'] };
+    }
+    return merged;
+  }
+
+  get config(): AppConfig {
+    if (!this.loaded) {
+      throw new Error('App config used before it was loaded');
+    }
+    return this.loaded;
+  }
+
+  get apiUrl(): string {
+    return this.config.apiUrl;
+  }
+
+  get imageApiUrl(): string {
+    return this.config.imageApiUrl;
+  }
+
+  // URL patterns that get an access token: every backend origin plus any extra allowedList entries
+  get authenticatedUrls(): string[] {
+    const { apiUrl, imageApiUrl, allowedList = [] } = this.config;
+    const origins = [apiUrl, imageApiUrl].map(url => `${new URL(url, window.location.href).origin}/*`);
+    return Array.from(new Set([...origins, ...allowedList]));
+  }
+
+  /**
+   * Whether a request URL is sent with an access token (same matching as AuthHttpInterceptor)
+   * @param url - Absolute request URL
+   */
+  isAuthenticatedUrl(url: string): boolean {
+    return this.authenticatedUrls.some(pattern => pattern.endsWith('*')
+      ? url.startsWith(pattern.slice(0, -1))
+      : url === pattern);
+  }
+}
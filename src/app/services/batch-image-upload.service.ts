@@ -0,0 +1,198 @@
+import { Injectable } from '@angular/core';
+import { Food } from '../models/food.model';
+
+export type BatchImageType = 'nutrition' | 'product' | 'ingredients';
+
+export type BatchFileStatus =
+  'invalid' | 'checking' | 'notFound' | 'lookupFailed' | 'ready' | 'queued' | 'uploading' | 'uploaded' | 'failed';
+
+// One dropped/selected file matched to a food by its name, e.g. 12345_nutrition.jpg
+export interface BatchImageFile {
+  file: File;
+  foodId: number | null;
+  type: BatchImageType | null;
+  errors: string[];
+  food?: Food;
+  status: BatchFileStatus;
+  selected: boolean;
+  error?: string;
+  // Upload progress 0-100
+  progress: number;
+}
+
+// One upload request - a nutrition upload also carries that food's ingredients image
+export interface BatchUploadTask {
+  foodId: number;
+  type: 'nutrition' | 'product';
+  files: BatchImageFile[];
+}
+
+// <foodId>_<type>.<ext>, "-" also accepted as the separator
+const FILE_NAME_PATTERN = /^(\d+)[_-](nutrition|product|ingredients)\.[a-z0-9]+$/i;
+
+// Same limit as ImageUploadComponent
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class BatchImageUploadService {
+
+  /**
+   * Food ID and image type from a file name
+   * @param name - File name without folders, e.g. "12345_product.png"
+   * @returns null when the name doesn't follow <foodId>_<type>.<ext>
+   */
+  parseFileName(name: string): { foodId: number; type: BatchImageType } | null {
+    const match = FILE_NAME_PATTERN.exec(name.trim());
+    if (!match || Number(match[1]) <= 0) {
+      return null;
+    }
+    return { foodId: Number(match[1]), type: match[2].toLowerCase() as BatchImageType };
+  }
+
+  /**
+   * Match files to foods by name and validate them (no backend call)
+   * Hidden files (e.g. .DS_Store from a dropped folder) are skipped
+   * @param files - Selected or dropped files
+   */
+  buildRows(files: File[]): BatchImageFile[] {
+    const rows = files
+      .filter(file => !file.name.startsWith('.'))
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+      .map(file => this.buildRow(file));
+
+    // One image of each type per food
+    const seen = new Set<string>();
+    rows.forEach(row => {
+      if (row.foodId === null || row.type === null) {
+        return;
+      }
+      const key = `${row.foodId}_${row.type}`;
+      if (seen.has(key)) {
+        row.errors.push(`Another ${row.type} image for food ${row.foodId} is already in the batch`);
+        row.status = 'invalid';
+      }
+      seen.add(key);
+    });
+
+    // The API takes the ingredients image together with the nutrition label
+    rows.filter(row => row.type === 'ingredients' && row.status !== 'invalid').forEach(row => {
+      if (!rows.some(other => other.foodId === row.foodId && other.type === 'nutrition' && other.status !== 'invalid')) {
+        row.errors.push('Ingredients images are uploaded with a nutrition image for the same food');
+        row.status = 'invalid';
+      }
+    });
+
+    return rows;
+  }
+
+  private buildRow(file: File): BatchImageFile {
+    const errors: string[] = [];
+    const parsed = this.parseFileName(file.name);
+    if (!parsed) {
+      errors.push('Name must be <foodId>_nutrition, _product or _ingredients');
+    }
+    if (!file.type.startsWith('image/')) {
+      errors.push('Not an image file');
+    } else if (file.size > MAX_FILE_SIZE) {
+      errors.push('File size must be less than 10MB');
+    }
+
+    return {
+      file,
+      foodId: parsed?.foodId ?? null,
+      type: parsed?.type ?? null,
+      errors,
+      status: errors.length > 0 ? 'invalid' : 'checking',
+      selected: false,
+      progress: 0
+    };
+  }
+
+  /**
+   * Record the food lookup for a row
+   * @param row - Row waiting on its lookup
+   * @param food - Food from the API (null when not found)
+   * @param error - Why the lookup failed for any other reason (the row can be looked up again)
+   */
+  matchFood(row: BatchImageFile, food: Food | null, error?: string): void {
+    if (row.status !== 'checking') {
+      return;
+    }
+    if (error) {
+      row.status = 'lookupFailed';
+      row.error = error;
+      return;
+    }
+    if (!food) {
+      row.status = 'notFound';
+      row.errors.push(`Food ${row.foodId} not found`);
+      return;
+    }
+    row.food = food;
+    row.status = 'ready';
+    row.selected = row.type !== 'ingredients';
+  }
+
+  /**
+   * Upload requests for the selected rows - nutrition + ingredients share one request per food
+   * Ingredients rows aren't selected on their own; they go with their food's nutrition row
+   * @param rows - All rows in the batch
+   */
+  buildTasks(rows: BatchImageFile[]): BatchUploadTask[] {
+    const isPending = (row: BatchImageFile) => row.status === 'ready' || row.status === 'failed';
+    return rows
+      .filter(row => row.selected && isPending(row) && (row.type === 'nutrition' || row.type === 'product'))
+      .map(row => {
+        const files = [row];
+        const ingredients = row.type === 'nutrition'
+          ? rows.find(other => other.foodId === row.foodId && other.type === 'ingredients' && isPending(other))
+          : undefined;
+        if (ingredients) {
+          files.push(ingredients);
+        }
+        return { foodId: row.foodId as number, type: row.type as 'nutrition' | 'product', files };
+      });
+  }
+
+  /**
+   * Files from a drop, including the contents of dropped folders
+   * Falls back to DataTransfer.files when the browser doesn't expose entries
+   * @param dataTransfer - Drop event data
+   */
+  async readDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+    const entries = Array.from(dataTransfer.items || [])
+      .map(item => item.kind === 'file' ? item.webkitGetAsEntry() : null)
+      .filter((entry): entry is FileSystemEntry => !!entry);
+    if (entries.length === 0) {
+      return Array.from(dataTransfer.files || []);
+    }
+
+    const files = await Promise.all(entries.map(entry => this.readEntry(entry)));
+    return files.reduce((all, list) => all.concat(list), [] as File[]);
+  }
+
+  private async readEntry(entry: FileSystemEntry): Promise<File[]> {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject));
+      return [file];
+    }
+    if (!entry.isDirectory) {
+      return [];
+    }
+
+    // readEntries returns at most 100 entries per call - keep reading until it returns none
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    let batch: FileSystemEntry[];
+    do {
+      batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      children.push(...batch);
+    } while (batch.length > 0);
+
+    const files = await Promise.all(children.map(child => this.readEntry(child)));
+    return files.reduce((all, list) => all.concat(list), [] as File[]);
+  }
+}
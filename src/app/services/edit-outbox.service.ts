@@ -0,0 +1,228 @@
+import { Injectable } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { BehaviorSubject, Observable, Subject, from, of } from 'rxjs';
+import { catchError, concatMap, filter, finalize, map } from 'rxjs/operators';
+import { YehApiService } from './yeh-api.service';
+import { NetworkStatusService } from './network-status.service';
+import { MetadataHistoryService } from './metadata-history.service';
+import { Food, FoodMetadataUpdate } from '../models/food.model';
+import { MetadataSnapshot } from '../models/metadata-history.model';
+import { getErrorMessage } from '../models/api.model';
+
+export type OutboxItemStatus = 'pending' | 'sending' | 'failed';
+
+// One queued metadata edit (later edits to the same food are merged into it)
+export interface OutboxItem {
+  id: string;
+  foodId: number;
+  description: string;
+  update: FoodMetadataUpdate;
+  // Field values before the first queued edit (recorded in the change history once sent)
+  original?: MetadataSnapshot;
+  // Version the edit was made against - the replay is rejected if the food changed on the server since
+  etag?: string;
+  queuedAt: number;
+  attempts: number;
+  status: OutboxItemStatus;
+  lastError?: string;
+  // Rejected because the food changed on the server - the next save of the food goes through the conflict check instead
+  conflict?: boolean;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class EditOutboxService {
+  private readonly STORAGE_KEY = 'foods-tool.edit-outbox';
+
+  private items: OutboxItem[] = this.load();
+  private itemsSubject = new BehaviorSubject<OutboxItem[]>(this.copyItems());
+  private foodSyncedSubject = new Subject<Food>();
+  private isReplaying = false;
+
+  // Queued edits, oldest first
+  readonly items$: Observable<OutboxItem[]> = this.itemsSubject.asObservable();
+
+  // Emits the server's copy of a food after its queued edit is saved
+  readonly foodSynced$: Observable<Food> = this.foodSyncedSubject.asObservable();
+
+  constructor(
+    private foodsService: YehApiService,
+    private networkStatus: NetworkStatusService,
+    private history: MetadataHistoryService
+  ) {
+    // Replay automatically when connectivity returns (and on startup when online)
+    this.networkStatus.online$.pipe(filter(online => online)).subscribe(() => this.replay());
+  }
+
+  /**
+   * Check whether a failed request should be queued rather than reported
+   * No connection (status 0) or the server/gateway being unavailable (502/503/504)
+   * @param error - Error from updateFoodMetadata
+   */
+  isQueueable(error: HttpErrorResponse): boolean {
+    return error.status === 0 || error.status === 502 || error.status === 503 || error.status === 504;
+  }
+
+  // Edits still waiting to be sent for a food (conflicted edits are resolved by saving again, not by queueing)
+  hasPending(foodId: number): boolean {
+    return this.items.some(item => item.foodId === foodId && !item.conflict);
+  }
+
+  /**
+   * Drop a food's edits that were rejected as conflicting once they're resolved online
+   * @param foodId - Food that was saved
+   */
+  discardConflicts(foodId: number): void {
+    if (this.items.some(item => item.foodId === foodId && item.conflict)) {
+      this.items = this.items.filter(item => item.foodId !== foodId || !item.conflict);
+      this.publish();
+    }
+  }
+
+  get count(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Queue a metadata edit (merged into an existing queued edit for the same food)
+   * @param food - Food being edited
+   * @param update - Changed fields
+   * @param error - Error message that caused the edit to be queued, if any
+   */
+  enqueue(food: Food, update: FoodMetadataUpdate, error?: string): void {
+    // An in-flight item can't be changed, so edits made while it sends are queued after it
+    const existing = this.items.find(item => item.foodId === food.id && item.status !== 'sending' && !item.conflict);
+    if (existing) {
+      existing.update = { ...existing.update, ...update };
+      existing.status = 'pending';
+      existing.lastError = error;
+    } else {
+      // A conflicted edit is replaced rather than revived with its stale version
+      const conflicted = this.items.find(item => item.foodId === food.id && item.conflict);
+      this.items = this.items.filter(item => item !== conflicted);
+      this.items.push({
+        id: `${food.id}-${Date.now()}`,
+        foodId: food.id,
+        description: food.description,
+        update: { ...conflicted?.update, ...update },
+        original: conflicted?.original ?? this.history.snapshot(food),
+        etag: food.etag,
+        queuedAt: Date.now(),
+        attempts: 0,
+        status: 'pending',
+        lastError: error
+      });
+    }
+    this.publish();
+  }
+
+  // Drop a queued edit without sending it
+  discard(id: string): void {
+    this.items = this.items.filter(item => item.id !== id);
+    this.publish();
+  }
+
+  // Send one queued edit now (also for items that failed with a server error)
+  retry(id: string): void {
+    const item = this.items.find(i => i.id === id);
+    if (item) {
+      item.status = 'pending';
+      item.conflict = false;
+      this.replay([item]);
+    }
+  }
+
+  /**
+   * Send queued edits one at a time, oldest first
+   * Stops at the first connection failure; other errors mark the item failed and move on
+   * @param items - Items to send (defaults to every pending item)
+   */
+  replay(items: OutboxItem[] = this.items.filter(item => item.status === 'pending')): void {
+    if (this.isReplaying || items.length === 0) {
+      return;
+    }
+
+    this.isReplaying = true;
+    let offline = false;
+
+    from(items).pipe(
+      filter(() => !offline),
+      concatMap(item => {
+        item.status = 'sending';
+        item.attempts++;
+        this.publish();
+        return this.foodsService.updateFoodMetadata(item.foodId, item.update, item.etag).pipe(
+          map(updatedFood => ({ item, updatedFood, error: null as HttpErrorResponse | null })),
+          catchError((error: HttpErrorResponse) => of({ item, updatedFood: null as Food | null, error }))
+        );
+      }),
+      finalize(() => {
+        this.isReplaying = false;
+        this.publish();
+        // Send edits queued while this replay was running
+        if (!offline && this.items.some(item => item.status === 'pending')) {
+          this.replay();
+        }
+      })
+    ).subscribe(({ item, updatedFood, error }) => {
+      if (updatedFood) {
+        this.items = this.items.filter(i => i !== item);
+        // Later edits to this food were made on top of this one, so they now apply to the saved version
+        this.items.filter(i => i.foodId === item.foodId).forEach(i => i.etag = updatedFood.etag);
+        if (item.original) {
+          this.history.record(item.foodId, item.original, item.update, 'offline');
+        }
+        this.networkStatus.markOnline();
+        this.foodSyncedSubject.next(updatedFood);
+        return;
+      }
+      item.lastError = error ? getErrorMessage(error, 'Update failed') : 'Update failed';
+      if (error && this.foodsService.isConflict(error)) {
+        item.status = 'failed';
+        item.conflict = true;
+        item.lastError = 'Changed on the server since this edit was made - open the food and save it again to resolve';
+      } else if (error && this.isQueueable(error)) {
+        // Still unreachable - leave it pending for the next replay
+        item.status = 'pending';
+        offline = true;
+        if (error.status === 0) {
+          this.networkStatus.markOffline();
+        }
+      } else {
+        item.status = 'failed';
+      }
+    });
+  }
+
+  // ========================================
+  // LOCAL PERSISTENCE
+  // ========================================
+
+  private load(): OutboxItem[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const items: OutboxItem[] = stored ? JSON.parse(stored) : [];
+      // An edit that was mid-flight when the page closed is sent again
+      return Array.isArray(items)
+        ? items.map(item => item.status === 'sending' ? { ...item, status: 'pending' } : item)
+        : [];
+    } catch (error) {
+      console.error('Failed to read edit outbox:', error);
+      return [];
+    }
+  }
+
+  private copyItems(): OutboxItem[] {
+    return this.items.map(item => ({ ...item, update: { ...item.update } }));
+  }
+
+  private publish(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.items));
+    } catch (error) {
+      console.error('Failed to save edit outbox:', error);
+    }
+    this.itemsSubject.next(this.copyItems());
+  }
+}
@@ -0,0 +1,56 @@
+import { Injectable } from '@angular/core';
+import { MatSnackBar, MatSnackBarRef, TextOnlySnackBar } from '@angular/material/snack-bar';
+import { ApiError, getErrorMessage } from '../models/api.model';
+import { PermissionService } from './permission.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ErrorAnnouncerService {
+  private current: { message: string; ref: MatSnackBarRef<TextOnlySnackBar> } | null = null;
+
+  constructor(
+    private snackBar: MatSnackBar,
+    private permissions: PermissionService
+  ) {}
+
+  /**
+   * Show a failed request to the user (and log it)
+   * @param error - Error from an API call
+   * @param context - What was being done, e.g. "Failed to save metadata"
+   */
+  announce(error: unknown, context: string): void {
+    console.error(`${context}:`, error);
+    if (error instanceof ApiError && error.kind === 'forbidden') {
+      // Say which role the server turned down rather than a bare "forbidden"
+      const roles = this.permissions.describeRoles();
+      this.announceMessage(`${context}: your account (${roles}) doesn't have permission for this. Ask an administrator for access.`);
+      return;
+    }
+    this.announceMessage(`${context}: ${getErrorMessage(error, 'Unknown error')}`);
+  }
+
+  /**
+   * Show an error message (read out by screen readers)
+   * The same message isn't stacked while it is still on screen
+   * @param message - Text to show
+   */
+  announceMessage(message: string): void {
+    if (this.current?.message === message) {
+      return;
+    }
+    const ref = this.snackBar.open(message, 'Close', {
+      duration: 10000,
+      horizontalPosition: 'center',
+      verticalPosition: 'top',
+      panelClass: ['error-snackbar'],
+      politeness: 'assertive'
+    });
+    this.current = { message, ref };
+    ref.afterDismissed().subscribe(() => {
+      if (this.current?.ref === ref) {
+        this.current = null;
+      }
+    });
+  }
+}
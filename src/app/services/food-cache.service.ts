@@ -0,0 +1,193 @@
+import { Injectable } from '@angular/core';
+import { Observable, from, of } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { Food } from '../models/food.model';
+
+// Search results stored as food IDs so edits to a cached food show up in every cached search
+interface SearchRecord {
+  key: string;
+  foodIds: number[];
+  cachedAt: number;
+}
+
+interface FoodRecord {
+  id: number;
+  food: Food;
+  cachedAt: number;
+}
+
+export interface CachedSearch {
+  foods: Food[];
+  cachedAt: number;
+}
+
+export interface CachedFood {
+  food: Food;
+  cachedAt: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FoodCacheService {
+  private readonly DB_NAME = 'foods-tool-cache';
+  private readonly DB_VERSION = 2;
+  private readonly SEARCHES = 'searches';
+  private readonly FOODS = 'foods';
+  private readonly CACHED_AT_INDEX = 'cachedAt';
+
+  // Entries older than a week, and the oldest beyond each store's limit, are dropped on every write
+  private readonly MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+  private readonly MAX_SEARCHES = 200;
+  private readonly MAX_FOODS = 2000;
+
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  /**
+   * Cached results for a search
+   * @param key - Search key (query|limit|approved)
+   * @returns Cached foods, or null when not cached (or IndexedDB is unavailable)
+   */
+  getSearch(key: string): Observable<CachedSearch | null> {
+    return this.wrap(this.readSearch(key));
+  }
+
+  /**
+   * Cache search results (also caches every food record)
+   * @param key - Search key (query|limit|approved)
+   * @param foods - Results to cache
+   */
+  putSearch(key: string, foods: Food[]): void {
+    const cachedAt = Date.now();
+    this.write(store => {
+      const searches = store(this.SEARCHES);
+      const foodStore = store(this.FOODS);
+      searches.put({ key, foodIds: foods.map(f => f.id), cachedAt } as SearchRecord);
+      foods.forEach(food => foodStore.put({ id: food.id, food, cachedAt } as FoodRecord));
+    });
+  }
+
+  getFood(foodId: number): Observable<CachedFood | null> {
+    return this.wrap(this.withDb(async db => {
+      const record = await this.request<FoodRecord | undefined>(
+        db.transaction(this.FOODS).objectStore(this.FOODS).get(foodId)
+      );
+      return record ? { food: record.food, cachedAt: record.cachedAt } : null;
+    }));
+  }
+
+  // Cache a single food (e.g. after an edit or a get-by-id)
+  putFood(food: Food): void {
+    this.write(store => store(this.FOODS).put({ id: food.id, food, cachedAt: Date.now() } as FoodRecord));
+  }
+
+  private async readSearch(key: string): Promise<CachedSearch | null> {
+    return this.withDb(async db => {
+      const tx = db.transaction([this.SEARCHES, this.FOODS]);
+      const search = await this.request<SearchRecord | undefined>(tx.objectStore(this.SEARCHES).get(key));
+      if (!search) {
+        return null;
+      }
+      const foodStore = tx.objectStore(this.FOODS);
+      const records = await Promise.all(
+        search.foodIds.map(id => this.request<FoodRecord | undefined>(foodStore.get(id)))
+      );
+      // A food evicted from the foods store invalidates the search
+      if (records.some(record => !record)) {
+        return null;
+      }
+      return { foods: records.map(record => record!.food), cachedAt: search.cachedAt };
+    });
+  }
+
+  // ========================================
+  // INDEXEDDB HELPERS
+  // ========================================
+
+  private openDb(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          const upgrade = request.transaction as IDBTransaction;
+          const searches = db.objectStoreNames.contains(this.SEARCHES)
+            ? upgrade.objectStore(this.SEARCHES)
+            : db.createObjectStore(this.SEARCHES, { keyPath: 'key' });
+          const foods = db.objectStoreNames.contains(this.FOODS)
+            ? upgrade.objectStore(this.FOODS)
+            : db.createObjectStore(this.FOODS, { keyPath: 'id' });
+          // Version 2: oldest-first index for eviction
+          [searches, foods]
+            .filter(store => !store.indexNames.contains(this.CACHED_AT_INDEX))
+            .forEach(store => store.createIndex(this.CACHED_AT_INDEX, 'cachedAt'));
+        };
+        request.onsuccess = () => resolve(request.result);
+        // Private browsing or blocked storage - run without a cache
+        request.onerror = () => {
+          console.warn('Food cache unavailable:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async withDb<T>(action: (db: IDBDatabase) => Promise<T | null>): Promise<T | null> {
+    const db = await this.openDb();
+    return db ? action(db) : null;
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Fire-and-forget write; cache failures never affect the UI
+  private write(action: (store: (name: string) => IDBObjectStore) => void): void {
+    this.openDb().then(db => {
+      if (!db) {
+        return;
+      }
+      const tx = db.transaction([this.SEARCHES, this.FOODS], 'readwrite');
+      action(name => tx.objectStore(name));
+      this.evict(tx.objectStore(this.SEARCHES), this.MAX_SEARCHES);
+      this.evict(tx.objectStore(this.FOODS), this.MAX_FOODS);
+      tx.onerror = () => console.warn('Food cache write failed:', tx.error);
+    }).catch(error => console.warn('Food cache write failed:', error));
+  }
+
+  // Delete oldest first while entries are expired or the store is over its limit
+  private evict(store: IDBObjectStore, maxEntries: number): void {
+    const expiredBefore = Date.now() - this.MAX_AGE_MS;
+    const countRequest = store.count();
+    countRequest.onsuccess = () => {
+      let remaining = countRequest.result;
+      const cursorRequest = store.index(this.CACHED_AT_INDEX).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || (remaining <= maxEntries && cursor.value.cachedAt >= expiredBefore)) {
+          return;
+        }
+        cursor.delete();
+        remaining--;
+        cursor.continue();
+      };
+    };
+  }
+
+  private wrap<T>(promise: Promise<T | null>): Observable<T | null> {
+    return from(promise).pipe(
+      catchError(error => {
+        console.warn('Food cache read failed:', error);
+        return of(null);
+      })
+    );
+  }
+}
@@ -0,0 +1,190 @@
+import { Injectable } from '@angular/core';
+import { Food } from '../models/food.model';
+import { NUTRITION_FACT_FIELDS, getServingMultiplier } from '../models/nutrition-fields';
+
+export type ExportFormat = 'csv' | 'json' | 'xls';
+
+export type ExportCellValue = string | number | boolean | null;
+
+// One exportable column - value() receives the per-serving/per-100g multiplier
+export interface ExportColumn {
+  key: string;
+  label: string;
+  group: 'food' | 'nutrition';
+  unit?: string;
+  scaled?: boolean;
+  value: (food: Food, multiplier: number) => ExportCellValue;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: ExportColumn[];
+  perServing: boolean;
+  fileName: string;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FoodExportService {
+
+  // Food fields first, then every NutritionFacts field
+  readonly columns: ExportColumn[] = [
+    { key: 'id', label: 'Food ID', group: 'food', value: f => f.id },
+    { key: 'description', label: 'Description', group: 'food', value: f => f.description ?? null },
+    { key: 'shortDescription', label: 'Short Description', group: 'food', value: f => f.shortDescription ?? null },
+    { key: 'glycemicIndex', label: 'GI', group: 'food', value: f => f.glycemicIndex ?? null },
+    { key: 'glycemicLoad', label: 'Load', group: 'food', value: f => f.glycemicLoad ?? null },
+    { key: 'yehApproved', label: 'YEH Approved', group: 'food', value: f => f.yehApproved ?? false },
+    { key: 'servingSizeMultiplicand', label: 'Serving Size Multiplicand', group: 'food', value: f => f.servingSizeMultiplicand ?? null },
+    { key: 'nutritionFactsStatus', label: 'Nutrition Facts Status', group: 'food', value: f => f.nutritionFactsStatus ?? null },
+    { key: 'nutritionFactsImage', label: 'Nutrition Facts Image', group: 'food', value: f => f.nutritionFactsImage ?? null },
+    { key: 'foodImage', label: 'Food Image', group: 'food', value: f => f.foodImage ?? null },
+    { key: 'foodName', label: 'Food Name', group: 'nutrition', value: f => f.nutritionFacts?.foodName ?? null },
+    { key: 'servingSizeHousehold', label: 'Serving Size (household)', group: 'nutrition', value: f => f.nutritionFacts?.servingSizeHousehold ?? null },
+    ...NUTRITION_FACT_FIELDS.map(field => ({
+      key: field.key,
+      label: field.label,
+      group: 'nutrition' as const,
+      unit: field.unit,
+      scaled: field.isNutrient,
+      value: (f: Food, multiplier: number) => {
+        const raw = f.nutritionFacts?.[field.key];
+        if (typeof raw !== 'number') {
+          return null;
+        }
+        return field.isNutrient ? round1(raw * multiplier) : raw;
+      }
+    }))
+  ];
+
+  /**
+   * Build the file and start a browser download (no backend call)
+   * @param foods - Foods to export
+   * @param options - Format, columns, value basis and file name
+   */
+  exportFoods(foods: Food[], options: ExportOptions): void {
+    const headers = options.columns.map(column => this.getHeader(column, options.perServing));
+    const rows = foods.map(food => {
+      const multiplier = getServingMultiplier(food, options.perServing);
+      return options.columns.map(column => column.value(food, multiplier));
+    });
+
+    let content: string;
+    let mimeType: string;
+    switch (options.format) {
+      case 'json':
+        content = this.toJson(options.columns, rows, options.perServing);
+        mimeType = 'application/json';
+        break;
+      case 'xls':
+        content = this.toSpreadsheetXml(headers, rows);
+        mimeType = 'application/vnd.ms-excel';
+        break;
+      default:
+        // BOM so Excel opens UTF-8 CSV correctly
+        content = '\uFEFF' + this.toCsv(headers, rows);
+        mimeType = 'text/csv;charset=utf-8';
+    }
+
+    this.download(content, mimeType, this.withExtension(options.fileName, options.format));
+  }
+
+  getHeader(column: ExportColumn, perServing: boolean): string {
+    if (!column.unit) {
+      return column.label;
+    }
+    if (!column.scaled) {
+      return `${column.label} (${column.unit})`;
+    }
+    return `${column.label} (${column.unit}/${perServing ? 'serving' : '100g'})`;
+  }
+
+  toCsv(headers: string[], rows: ExportCellValue[][]): string {
+    return [headers, ...rows]
+      .map(row => row.map(value => this.escapeCsv(value)).join(','))
+      .join('\r\n');
+  }
+
+  private escapeCsv(value: ExportCellValue): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    // Text from the backend starting with = + - @ (or tab/CR) would run as a spreadsheet formula
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private toJson(columns: ExportColumn[], rows: ExportCellValue[][], perServing: boolean): string {
+    const foods = rows.map(row => {
+      const record: { [key: string]: ExportCellValue } = {};
+      columns.forEach((column, i) => record[column.key] = row[i]);
+      return record;
+    });
+    return JSON.stringify({
+      basis: perServing ? 'perServing' : 'per100g',
+      exportedAt: new Date().toISOString(),
+      count: foods.length,
+      foods
+    }, null, 2);
+  }
+
+  // Excel 2003 XML Spreadsheet - opens in Excel, LibreOffice and Google Sheets without a library
+  private toSpreadsheetXml(headers: string[], rows: ExportCellValue[][]): string {
+    const cell = (value: ExportCellValue) => {
+      if (value === null || value === undefined) {
+        return '<Cell/>';
+      }
+      if (typeof value === 'number') {
+        return `<Cell><Data ss:Type="Number">${value}</Data></Cell>`;
+      }
+      if (typeof value === 'boolean') {
+        return `<Cell><Data ss:Type="Boolean">${value ? 1 : 0}</Data></Cell>`;
+      }
+      return `<Cell><Data ss:Type="String">${this.escapeXml(value)}</Data></Cell>`;
+    };
+    const xmlRows = [headers, ...rows].map(row => `<Row>${row.map(cell).join('')}</Row>`).join('\n');
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<?mso-application progid="Excel.Sheet"?>\n' +
+      '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" ' +
+      'xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">\n' +
+      '<Worksheet ss:Name="Foods"><Table>\n' + xmlRows + '\n</Table></Worksheet>\n' +
+      '</Workbook>';
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private withExtension(fileName: string, format: ExportFormat): string {
+    const base = (fileName || 'foods-export').trim().replace(/[\\/:*?"<>|]/g, '_') || 'foods-export';
+    const extension = `.${format}`;
+    return base.toLowerCase().endsWith(extension) ? base : base + extension;
+  }
+
+  /**
+   * Save text content as a file in the browser
+   * @param content - File contents
+   * @param mimeType - MIME type for the Blob
+   * @param fileName - Name including extension
+   */
+  download(content: string, mimeType: string, fileName: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Revoking right after click() can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
@@ -0,0 +1,248 @@
+import { Injectable } from '@angular/core';
+import { Food, FoodMetadataUpdate } from '../models/food.model';
+
+export type ImportRowStatus =
+  'invalid' | 'notFound' | 'lookupFailed' | 'unchanged' | 'ready' | 'applying' | 'applied' | 'failed';
+
+// One parsed CSV row with its validation result and diff against the current food
+export interface ImportRow {
+  line: number;
+  raw: { [column: string]: string };
+  foodId: number | null;
+  update: FoodMetadataUpdate;
+  errors: string[];
+  food?: Food;
+  status: ImportRowStatus;
+  selected: boolean;
+  error?: string;
+  // Fields in the file that are left out because the user may not change them
+  skipped?: string[];
+}
+
+// Accepted header names (case/space/underscore insensitive) for each field
+const COLUMN_ALIASES: { [field: string]: string[] } = {
+  foodId: ['foodid', 'id', 'food'],
+  glycemicIndex: ['gi', 'glycemicindex'],
+  glycemicLoad: ['gl', 'load', 'glycemicload'],
+  shortDescription: ['shortdescription', 'shortdesc'],
+  yehApproved: ['yehapproved', 'approved']
+};
+
+// Cell values that clear a field (empty cells leave it unchanged)
+const CLEAR_VALUES = ['null', '-'];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class GlycemicImportService {
+
+  /**
+   * Parse CSV text (RFC 4180 quoting) into rows of cells
+   * @param text - CSV file contents
+   */
+  parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') {
+          i++;
+        }
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    // Drop blank lines
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+  }
+
+  /**
+   * Parse and validate an import file
+   * @param text - CSV with a header row containing foodId plus any of GI, GL, shortDescription, yehApproved
+   * @param canApprove - Whether yehApproved values are imported (needs the approve:foods permission)
+   * @returns Parsed rows, or throws Error when the header is unusable
+   */
+  parseImport(text: string, canApprove: boolean = true): ImportRow[] {
+    const [header, ...dataRows] = this.parseCsv(text);
+    if (!header) {
+      throw new Error('The file is empty');
+    }
+
+    const columnIndex = this.mapColumns(header);
+    if (columnIndex['foodId'] === undefined) {
+      throw new Error('Missing foodId column');
+    }
+    if (Object.keys(columnIndex).length === 1) {
+      throw new Error('No GI, GL, shortDescription or yehApproved column found');
+    }
+
+    const seenIds = new Set<number>();
+    return dataRows.map((cells, i) => {
+      const row = this.parseRow(cells, header, columnIndex, i + 2, canApprove);
+      if (row.foodId !== null) {
+        if (seenIds.has(row.foodId)) {
+          row.errors.push(`Duplicate foodId ${row.foodId}`);
+          row.status = 'invalid';
+        }
+        seenIds.add(row.foodId);
+      }
+      return row;
+    });
+  }
+
+  private mapColumns(header: string[]): { [field: string]: number } {
+    const columnIndex: { [field: string]: number } = {};
+    header.forEach((name, i) => {
+      const normalized = name.trim().toLowerCase().replace(/[\s_-]/g, '');
+      Object.keys(COLUMN_ALIASES).forEach(field => {
+        if (COLUMN_ALIASES[field].includes(normalized) && columnIndex[field] === undefined) {
+          columnIndex[field] = i;
+        }
+      });
+    });
+    return columnIndex;
+  }
+
+  private parseRow(
+    cells: string[],
+    header: string[],
+    columnIndex: { [field: string]: number },
+    line: number,
+    canApprove: boolean
+  ): ImportRow {
+    const raw: { [column: string]: string } = {};
+    header.forEach((name, i) => raw[name] = cells[i] ?? '');
+
+    const cell = (field: string) => {
+      const index = columnIndex[field];
+      return index === undefined ? '' : (cells[index] ?? '').trim();
+    };
+
+    const errors: string[] = [];
+    const update: FoodMetadataUpdate = {};
+
+    const idText = cell('foodId');
+    const foodId = /^\d+$/.test(idText) && Number(idText) > 0 ? Number(idText) : null;
+    if (foodId === null) {
+      errors.push(idText ? `Invalid foodId "${idText}"` : 'Missing foodId');
+    }
+
+    this.parseNumber(cell('glycemicIndex'), 'GI', errors, value => update.glycemicIndex = value);
+    this.parseNumber(cell('glycemicLoad'), 'GL', errors, value => update.glycemicLoad = value);
+
+    const shortDesc = cell('shortDescription');
+    if (CLEAR_VALUES.includes(shortDesc.toLowerCase())) {
+      update.shortDescription = null;
+    } else if (shortDesc.length > 200) {
+      errors.push('shortDescription is longer than 200 characters');
+    } else if (shortDesc) {
+      update.shortDescription = shortDesc;
+    }
+
+    const approved = cell('yehApproved').toLowerCase();
+    const skipped: string[] = [];
+    if (approved && !canApprove) {
+      skipped.push('yehApproved');
+    } else if (['true', 'yes', 'y', '1'].includes(approved)) {
+      update.yehApproved = true;
+    } else if (['false', 'no', 'n', '0'].includes(approved)) {
+      update.yehApproved = false;
+    } else if (approved) {
+      errors.push(`Invalid yehApproved "${cell('yehApproved')}"`);
+    }
+
+    return {
+      line,
+      raw,
+      foodId,
+      update,
+      errors,
+      status: errors.length > 0 ? 'invalid' : 'ready',
+      selected: false,
+      skipped: skipped.length > 0 ? skipped : undefined
+    };
+  }
+
+  // GI and GL are 0-100; "null" or "-" clears the value
+  private parseNumber(text: string, label: string, errors: string[], assign: (value: number | null) => void): void {
+    if (!text) {
+      return;
+    }
+    if (CLEAR_VALUES.includes(text.toLowerCase())) {
+      assign(null);
+      return;
+    }
+    const value = Number(text);
+    if (!Number.isFinite(value)) {
+      errors.push(`${label} "${text}" is not a number`);
+    } else if (value < 0 || value > 100) {
+      errors.push(`${label} ${value} is outside 0-100`);
+    } else {
+      assign(Math.round(value * 10) / 10);
+    }
+  }
+
+  /**
+   * Compare a valid row against the current food and keep only the fields that change
+   * @param row - Parsed row
+   * @param food - Current food from the API (null when not found)
+   * @param error - Why the lookup failed for any other reason (the row can be looked up again)
+   */
+  diffRow(row: ImportRow, food: Food | null, error?: string): void {
+    if (row.status === 'invalid') {
+      return;
+    }
+    if (error) {
+      row.status = 'lookupFailed';
+      row.error = error;
+      return;
+    }
+    if (!food) {
+      row.status = 'notFound';
+      row.errors.push(`Food ${row.foodId} not found`);
+      return;
+    }
+
+    row.food = food;
+    const changed: FoodMetadataUpdate = {};
+    const keepIfChanged = <K extends keyof FoodMetadataUpdate>(key: K) => {
+      const current = key === 'yehApproved' ? (food.yehApproved ?? false) : (food[key] ?? null);
+      if (row.update[key] !== current) {
+        changed[key] = row.update[key];
+      }
+    };
+    (Object.keys(row.update) as (keyof FoodMetadataUpdate)[]).forEach(keepIfChanged);
+    row.update = changed;
+    row.status = Object.keys(changed).length > 0 ? 'ready' : 'unchanged';
+    row.selected = row.status === 'ready';
+  }
+}
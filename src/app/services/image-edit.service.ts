@@ -0,0 +1,200 @@
+import { Injectable } from '@angular/core';
+
+// Crop rectangle as fractions (0-1) of the rotated, straightened image
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEdits {
+  // Clockwise quarter turns (0-3)
+  quarterTurns: number;
+  // Fine rotation in degrees; the result is trimmed so no blank corners show
+  straighten: number;
+  crop: CropRect | null;
+}
+
+export interface CompressOptions {
+  // Longest side of the output in pixels
+  maxDimension: number;
+  // Output is re-encoded (and shrunk if needed) until it fits
+  targetBytes: number;
+}
+
+// A decoded image ready for editing - the pixels are already upright (EXIF orientation applied)
+export interface EditableImage {
+  bitmap: ImageBitmap;
+  width: number;
+  height: number;
+  // EXIF orientation tag from the file (1 = upright, or unknown)
+  orientation: number;
+}
+
+export const NO_EDITS: ImageEdits = { quarterTurns: 0, straighten: 0, crop: null };
+
+export const MAX_STRAIGHTEN_DEGREES = 15;
+
+// Lowest JPEG quality tried before shrinking the image instead
+const MIN_QUALITY = 0.5;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ImageEditService {
+
+  /**
+   * Decode an image file with its EXIF orientation applied
+   * @param file - JPEG, PNG, WebP etc.
+   */
+  async load(file: File): Promise<EditableImage> {
+    const [bitmap, orientation] = await Promise.all([
+      createImageBitmap(file, { imageOrientation: 'from-image' }),
+      this.readOrientation(file)
+    ]);
+    return { bitmap, width: bitmap.width, height: bitmap.height, orientation };
+  }
+
+  /**
+   * EXIF orientation tag (0x0112) of a JPEG, or 1 when there is none
+   * @param file - Image file (only the first 128KB is read)
+   */
+  async readOrientation(file: File): Promise<number> {
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) {
+      return 1;
+    }
+
+    // Walk the JPEG segments to APP1 "Exif\0\0"
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+      if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+        return this.readTiffOrientation(view, offset + 10);
+      }
+      if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) {
+        break;
+      }
+      offset += 2 + length;
+    }
+    return 1;
+  }
+
+  private readTiffOrientation(view: DataView, tiffStart: number): number {
+    if (tiffStart + 8 > view.byteLength) {
+      return 1;
+    }
+    const littleEndian = view.getUint16(tiffStart) === 0x4949;
+    const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+    if (ifdStart + 2 > view.byteLength) {
+      return 1;
+    }
+    const entries = view.getUint16(ifdStart, littleEndian);
+    for (let i = 0; i < entries; i++) {
+      const entry = ifdStart + 2 + i * 12;
+      if (entry + 10 > view.byteLength) {
+        break;
+      }
+      if (view.getUint16(entry, littleEndian) === 0x0112) {
+        const orientation = view.getUint16(entry + 8, littleEndian);
+        return orientation >= 1 && orientation <= 8 ? orientation : 1;
+      }
+    }
+    return 1;
+  }
+
+  /**
+   * Size of the rotated, straightened image that crops are taken from
+   * Straightening trims to the largest rectangle of the same shape that has no blank corners
+   * @param image - Decoded image
+   * @param edits - Rotation and straighten settings (crop is ignored)
+   */
+  getWorkingSize(image: EditableImage, edits: ImageEdits): { width: number; height: number } {
+    const sideways = edits.quarterTurns % 2 === 1;
+    const width = sideways ? image.height : image.width;
+    const height = sideways ? image.width : image.height;
+    const angle = Math.abs(edits.straighten) * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const scale = Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos));
+    return { width: Math.floor(width * scale), height: Math.floor(height * scale) };
+  }
+
+  /**
+   * Draw the rotated, straightened and cropped image onto a canvas
+   * @param canvas - Target canvas (resized to fit)
+   * @param image - Decoded image
+   * @param edits - Rotation, straighten and crop
+   * @param maxDimension - Longest side of the drawing in pixels
+   */
+  draw(canvas: HTMLCanvasElement, image: EditableImage, edits: ImageEdits, maxDimension: number): void {
+    const working = this.getWorkingSize(image, edits);
+    const crop = edits.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+    const cropWidth = Math.max(1, crop.width * working.width);
+    const cropHeight = Math.max(1, crop.height * working.height);
+    const scale = Math.min(1, maxDimension / Math.max(cropWidth, cropHeight));
+
+    canvas.width = Math.max(1, Math.round(cropWidth * scale));
+    canvas.height = Math.max(1, Math.round(cropHeight * scale));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas is not available');
+    }
+    // White behind any transparency - JPEG has no alpha
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    // Map the working image (centered on the rotated bitmap) onto the crop window
+    ctx.scale(scale, scale);
+    ctx.translate(-crop.x * working.width, -crop.y * working.height);
+    ctx.translate(working.width / 2, working.height / 2);
+    ctx.rotate((edits.quarterTurns * 90 + edits.straighten) * Math.PI / 180);
+    ctx.drawImage(image.bitmap, -image.width / 2, -image.height / 2);
+  }
+
+  /**
+   * Apply the edits and encode a JPEG no larger than targetBytes
+   * Quality is lowered first, then the image is shrunk, so text stays as sharp as the size allows
+   * @param image - Decoded image
+   * @param edits - Rotation, straighten and crop
+   * @param options - Output size limits
+   * @param fileName - Original file name (the extension becomes .jpg)
+   */
+  async render(image: EditableImage, edits: ImageEdits, options: CompressOptions, fileName: string): Promise<File> {
+    const canvas = document.createElement('canvas');
+    let maxDimension = options.maxDimension;
+    let blob: Blob | null = null;
+
+    for (let attempt = 0; attempt < 6; attempt++) {
+      this.draw(canvas, image, edits, maxDimension);
+      for (let quality = 0.9; quality >= MIN_QUALITY; quality -= 0.1) {
+        blob = await this.toBlob(canvas, quality);
+        if (blob.size <= options.targetBytes) {
+          return this.toFile(blob, fileName);
+        }
+      }
+      maxDimension = Math.round(Math.max(canvas.width, canvas.height) * 0.8);
+    }
+
+    // Still over the target at this size - send the smallest version rather than nothing
+    return this.toFile(blob as Blob, fileName);
+  }
+
+  private toBlob(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+    return new Promise((resolve, reject) => canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('Could not encode the image')),
+      'image/jpeg',
+      quality
+    ));
+  }
+
+  private toFile(blob: Blob, fileName: string): File {
+    const base = fileName.replace(/\.[^.]+$/, '') || 'image';
+    return new File([blob], `${base}.jpg`, { type: 'image/jpeg', lastModified: Date.now() });
+  }
+}
@@ -0,0 +1,166 @@
+import { Injectable } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { AuthService } from '@auth0/auth0-angular';
+import { Observable, of } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
+import { YehApiService } from './yeh-api.service';
+import { Food, FoodMetadataUpdate } from '../models/food.model';
+import { FoodHistoryEntry } from '../models/api.model';
+import {
+  MetadataChange,
+  MetadataChangeSource,
+  MetadataField,
+  MetadataFieldChange,
+  MetadataSnapshot
+} from '../models/metadata-history.model';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class MetadataHistoryService {
+  private readonly STORAGE_KEY = 'foods-tool.metadata-history';
+  // Keep the most recent entries per food so local storage stays small
+  private readonly MAX_ENTRIES_PER_FOOD = 50;
+
+  // null until the history endpoint has been tried; false after a 404/405/501
+  private backendAvailable: boolean | null = null;
+  private userName: string | null = null;
+
+  constructor(
+    private foodsService: YehApiService,
+    auth: AuthService
+  ) {
+    auth.user$.subscribe(user => this.userName = user?.email || user?.name || null);
+  }
+
+  /**
+   * PATCH metadata and record the change on success
+   * Sends the food's etag as a precondition, so the update fails with 412 if someone else changed it first
+   * @param food - Food as it was before the update (source of the old values and version)
+   * @param update - Changed fields
+   * @param source - Which feature sent the update
+   */
+  updateFoodMetadata(food: Food, update: FoodMetadataUpdate, source: MetadataChangeSource): Observable<Food> {
+    const before = this.snapshot(food);
+    return this.foodsService.updateFoodMetadata(food.id, update, food.etag).pipe(
+      tap(() => this.record(food.id, before, update, source))
+    );
+  }
+
+  // Old values of the metadata fields, for recording a change later (e.g. queued offline edits)
+  snapshot(food: Food): MetadataSnapshot {
+    return {
+      shortDescription: food.shortDescription ?? null,
+      glycemicIndex: food.glycemicIndex ?? null,
+      glycemicLoad: food.glycemicLoad ?? null,
+      yehApproved: food.yehApproved ?? false
+    };
+  }
+
+  /**
+   * Record a sent update (fields whose value didn't change are left out)
+   * @param foodId - Food that was updated
+   * @param before - Field values before the update
+   * @param update - Fields that were sent
+   * @param source - Which feature sent the update
+   */
+  record(foodId: number, before: MetadataSnapshot, update: FoodMetadataUpdate, source: MetadataChangeSource): void {
+    const changes: MetadataFieldChange[] = (Object.keys(update) as MetadataField[])
+      .map(field => ({
+        field,
+        oldValue: before[field] ?? (field === 'yehApproved' ? false : null),
+        newValue: update[field] ?? (field === 'yehApproved' ? false : null)
+      }))
+      .filter(change => change.oldValue !== change.newValue);
+
+    if (changes.length === 0) {
+      return;
+    }
+
+    const all = this.load();
+    const entries = all[foodId] || [];
+    entries.unshift({
+      id: `${foodId}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      foodId,
+      timestamp: new Date().toISOString(),
+      user: this.userName,
+      source,
+      changes
+    });
+    all[foodId] = entries.slice(0, this.MAX_ENTRIES_PER_FOOD);
+    this.save(all);
+  }
+
+  /**
+   * Change history for a food, newest first
+   * Uses the backend history endpoint when available, otherwise the history recorded in this browser
+   * @param foodId - Food to get history for
+   */
+  getHistory(foodId: number): Observable<MetadataChange[]> {
+    const local = this.load()[foodId] || [];
+    if (this.backendAvailable === false) {
+      return of(local);
+    }
+
+    return this.foodsService.getFoodHistory(foodId).pipe(
+      map(entries => {
+        this.backendAvailable = true;
+        return entries
+          .map((entry, i) => this.fromBackend(entry, foodId, i))
+          .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+      }),
+      catchError((error: HttpErrorResponse) => {
+        if (error.status === 404 || error.status === 405 || error.status === 501) {
+          this.backendAvailable = false;
+        }
+        return of(local);
+      })
+    );
+  }
+
+  /**
+   * Build the update that restores the old values of a change
+   * @param entry - History entry to revert
+   */
+  getRevertUpdate(entry: MetadataChange): FoodMetadataUpdate {
+    const update: Partial<FoodMetadataUpdate> = {};
+    const restore = <K extends MetadataField>(field: K, value: MetadataFieldChange['oldValue']) =>
+      update[field] = value as FoodMetadataUpdate[K];
+    entry.changes.forEach(change => restore(change.field, change.oldValue));
+    return update;
+  }
+
+  // Backend entries: { timestamp, user, source?, changes: [{ field, oldValue, newValue }] }
+  private fromBackend(entry: FoodHistoryEntry, foodId: number, index: number): MetadataChange {
+    return {
+      id: String(entry.id ?? `${foodId}-server-${index}`),
+      foodId,
+      timestamp: entry.timestamp || entry.changedAt || new Date(0).toISOString(),
+      user: entry.user || entry.changedBy || null,
+      source: (entry.source || 'edit') as MetadataChangeSource,
+      changes: entry.changes || []
+    };
+  }
+
+  // ========================================
+  // LOCAL PERSISTENCE
+  // ========================================
+
+  private load(): { [foodId: number]: MetadataChange[] } {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Failed to read metadata history:', error);
+      return {};
+    }
+  }
+
+  private save(all: { [foodId: number]: MetadataChange[] }): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(all));
+    } catch (error) {
+      console.error('Failed to save metadata history:', error);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Observable, fromEvent, merge } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class NetworkStatusService {
+  private onlineSubject = new BehaviorSubject<boolean>(navigator.onLine);
+
+  // Browser online/offline state (emits the current value on subscribe)
+  readonly online$: Observable<boolean> = this.onlineSubject.pipe(distinctUntilChanged());
+
+  constructor(private zone: NgZone) {
+    merge(
+      fromEvent(window, 'online').pipe(map(() => true)),
+      fromEvent(window, 'offline').pipe(map(() => false))
+    ).subscribe(online => this.zone.run(() => this.onlineSubject.next(online)));
+  }
+
+  get isOnline(): boolean {
+    return this.onlineSubject.value;
+  }
+
+  // Record a failed request with no response (status 0) - the browser's flag can lag behind
+  markOffline(): void {
+    this.onlineSubject.next(false);
+  }
+
+  // Record a successful request
+  markOnline(): void {
+    this.onlineSubject.next(true);
+  }
+}
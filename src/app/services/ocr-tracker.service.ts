@@ -0,0 +1,215 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { BehaviorSubject, EMPTY, Observable, Subject, Subscription, forkJoin, of, timer } from 'rxjs';
+import { catchError, exhaustMap, map } from 'rxjs/operators';
+import { YehApiService } from './yeh-api.service';
+import { Food } from '../models/food.model';
+import { ImageStatusResponse } from '../models/api.model';
+
+export type OcrJobStatus = 'pending' | 'processing' | 'completed' | 'error' | 'timeout';
+
+// One tracked nutrition upload, keyed by food ID
+export interface OcrJob {
+  foodId: number;
+  description: string;
+  status: OcrJobStatus;
+  startedAt: number;
+  updatedAt: number;
+  message?: string;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class OcrTrackerService implements OnDestroy {
+  // Poll every 5 seconds, give up after 10 minutes
+  private readonly POLL_INTERVAL_MS = 5000;
+  private readonly TIMEOUT_MS = 10 * 60 * 1000;
+
+  private jobs = new Map<number, OcrJob>();
+  private jobsSubject = new BehaviorSubject<OcrJob[]>([]);
+  private foodUpdatedSubject = new Subject<Food>();
+  private viewFoodSubject = new Subject<number>();
+  private pollSubscription: Subscription | null = null;
+
+  // All tracked jobs, most recent first
+  readonly jobs$: Observable<OcrJob[]> = this.jobsSubject.asObservable();
+
+  // Emits the re-fetched food whenever its nutrition data changes
+  readonly foodUpdated$: Observable<Food> = this.foodUpdatedSubject.asObservable();
+
+  // Emits a food ID when the user asks to view a tracked food (e.g. from a notification)
+  readonly viewFood$: Observable<number> = this.viewFoodSubject.asObservable();
+
+  constructor(
+    private foodsService: YehApiService,
+    private snackBar: MatSnackBar
+  ) {}
+
+  ngOnDestroy() {
+    this.stopPolling();
+  }
+
+  /**
+   * Start tracking OCR processing for a food after a nutrition image upload
+   * @param foodId - The food whose nutrition label was uploaded
+   * @param description - Food description for display
+   * @param initialStatus - Status returned by the upload response (defaults to pending)
+   */
+  track(foodId: number, description: string, initialStatus: string = 'pending'): void {
+    const now = Date.now();
+    this.jobs.set(foodId, {
+      foodId,
+      description,
+      status: this.normalizeStatus(initialStatus) ?? 'pending',
+      startedAt: now,
+      updatedAt: now
+    });
+    this.publish();
+    this.startPolling();
+  }
+
+  // Remove a job from the tracker (finished or not)
+  dismiss(foodId: number): void {
+    this.jobs.delete(foodId);
+    this.publish();
+  }
+
+  // Remove all finished jobs
+  clearFinished(): void {
+    this.jobs.forEach((job, id) => {
+      if (!this.isActive(job)) {
+        this.jobs.delete(id);
+      }
+    });
+    this.publish();
+  }
+
+  // Ask the foods view to open a tracked food
+  viewFood(foodId: number): void {
+    this.viewFoodSubject.next(foodId);
+  }
+
+  getJob(foodId: number): OcrJob | undefined {
+    return this.jobs.get(foodId);
+  }
+
+  isActive(job: OcrJob): boolean {
+    return job.status === 'pending' || job.status === 'processing';
+  }
+
+  // Approximate progress for display (0-100)
+  getProgress(job: OcrJob): number {
+    switch (job.status) {
+      case 'pending': return 20;
+      case 'processing': return 60;
+      default: return 100;
+    }
+  }
+
+  private startPolling(): void {
+    if (this.pollSubscription) {
+      return;
+    }
+    // A slow poll is never overlapped - ticks while it runs are skipped
+    this.pollSubscription = timer(this.POLL_INTERVAL_MS, this.POLL_INTERVAL_MS).pipe(
+      exhaustMap(() => this.poll())
+    ).subscribe();
+  }
+
+  private stopPolling(): void {
+    this.pollSubscription?.unsubscribe();
+    this.pollSubscription = null;
+  }
+
+  // Completes once every active job has been checked
+  private poll(): Observable<void> {
+    const activeJobs = Array.from(this.jobs.values()).filter(job => this.isActive(job));
+    if (activeJobs.length === 0) {
+      this.stopPolling();
+      return EMPTY;
+    }
+
+    return forkJoin({
+      queue: this.foodsService.getImageProcessingStatus().pipe(catchError(() => of(null))),
+      foods: forkJoin(activeJobs.map(job =>
+        this.foodsService.getFoodById(job.foodId).pipe(catchError(() => of(null)))
+      ))
+    }).pipe(
+      map(({ queue, foods }) => {
+        activeJobs.forEach((job, i) => this.updateJob(job, foods[i], queue));
+        this.publish();
+      })
+    );
+  }
+
+  private updateJob(job: OcrJob, food: Food | null, queue: ImageStatusResponse | null): void {
+    const now = Date.now();
+    const previousStatus = job.status;
+
+    // The food record is authoritative; the status endpoint fills in while the food is unchanged
+    const status = this.normalizeStatus(food?.nutritionFactsStatus)
+      ?? this.normalizeStatus(this.findQueueStatus(queue, job.foodId))
+      ?? job.status;
+
+    job.status = status;
+    job.updatedAt = now;
+    if (food?.description) {
+      job.description = food.description;
+    }
+
+    if (this.isActive(job) && now - job.startedAt > this.TIMEOUT_MS) {
+      job.status = 'timeout';
+      job.message = 'Stopped waiting for OCR processing';
+    }
+
+    if (food && (status !== previousStatus || !this.isActive(job))) {
+      this.foodUpdatedSubject.next(food);
+    }
+
+    if (job.status !== previousStatus && !this.isActive(job)) {
+      this.notify(job);
+    }
+  }
+
+  // The status endpoint lists in-flight jobs as { jobs: [{ foodId, status }] }
+  private findQueueStatus(queue: ImageStatusResponse | null, foodId: number): string | undefined {
+    return queue?.jobs?.find(entry => Number(entry.foodId) === foodId)?.status;
+  }
+
+  private normalizeStatus(status: string | null | undefined): OcrJobStatus | undefined {
+    switch ((status || '').toLowerCase()) {
+      case 'pending': return 'pending';
+      case 'processing': return 'processing';
+      case 'completed': return 'completed';
+      case 'error':
+      case 'failed': return 'error';
+      default: return undefined;
+    }
+  }
+
+  // Completion/error notification with a link back to the food
+  private notify(job: OcrJob): void {
+    const name = job.description || `Food ${job.foodId}`;
+    let message: string;
+    if (job.status === 'completed') {
+      message = `Nutrition facts extracted: ${name}`;
+    } else if (job.status === 'error') {
+      message = `OCR processing failed: ${name}`;
+    } else {
+      message = `OCR still not finished after 10 minutes: ${name}`;
+    }
+
+    this.snackBar.open(message, 'View', {
+      duration: 15000,
+      horizontalPosition: 'center',
+      verticalPosition: 'top',
+      panelClass: [job.status === 'completed' ? 'info-snackbar' : 'error-snackbar']
+    }).onAction().subscribe(() => this.viewFood(job.foodId));
+  }
+
+  private publish(): void {
+    const jobs = Array.from(this.jobs.values()).sort((a, b) => b.startedAt - a.startedAt);
+    this.jobsSubject.next(jobs.map(job => ({ ...job })));
+  }
+}
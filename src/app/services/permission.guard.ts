@@ -0,0 +1,20 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { map, take } from 'rxjs/operators';
+import { PermissionService } from './permission.service';
+import { Permission } from '../models/permissions.model';
+
+/**
+ * Route guard that sends users without a permission to /unauthorized
+ * Use after authGuardFn so the user is signed in before roles are checked
+ * @param permission - Permission required to open the route
+ */
+export function permissionGuard(permission: Permission): CanActivateFn {
+  return () => {
+    const router = inject(Router);
+    return inject(PermissionService).access$.pipe(
+      take(1),
+      map(access => access.permissions.includes(permission) ? true : router.createUrlTree(['/unauthorized']))
+    );
+  };
+}
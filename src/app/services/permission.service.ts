@@ -0,0 +1,109 @@
+import { Injectable } from '@angular/core';
+import { AuthService } from '@auth0/auth0-angular';
+import { BehaviorSubject, Observable, of } from 'rxjs';
+import { catchError, filter, map, switchMap } from 'rxjs/operators';
+import { AppConfigService } from './app-config.service';
+import {
+  ALL_PERMISSIONS,
+  NO_ACCESS,
+  Permission,
+  ROLE_LABELS,
+  ROLE_PERMISSIONS,
+  UserAccess,
+  UserRole
+} from '../models/permissions.model';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PermissionService {
+  // null until the access token has been read
+  private accessSubject = new BehaviorSubject<UserAccess | null>(null);
+
+  // Current user's access, once known (guards wait for the first value)
+  readonly access$: Observable<UserAccess> = this.accessSubject.pipe(
+    filter((access): access is UserAccess => access !== null)
+  );
+
+  constructor(
+    private auth: AuthService,
+    private appConfig: AppConfigService
+  ) {
+    this.auth.isAuthenticated$.pipe(
+      switchMap(isAuthenticated => isAuthenticated
+        ? this.auth.getAccessTokenSilently().pipe(
+          map(token => this.readAccess(token)),
+          catchError(error => {
+            console.error('Could not read roles from the access token:', error);
+            return of(this.getAccess([], []));
+          })
+        )
+        : of(NO_ACCESS)
+      )
+    ).subscribe(access => this.accessSubject.next(access));
+  }
+
+  get access(): UserAccess {
+    return this.accessSubject.value ?? NO_ACCESS;
+  }
+
+  can(permission: Permission): boolean {
+    return this.access.permissions.includes(permission);
+  }
+
+  // "Editor, Approver" - or "No role" when signed out
+  describeRoles(access: UserAccess = this.access): string {
+    return access.roles.length > 0 ? access.roles.map(role => ROLE_LABELS[role]).join(', ') : 'No role';
+  }
+
+  /**
+   * Roles and permissions from the access token claims
+   * Roles come from the namespaced roles claim (config rolesClaim, default "<audience>/roles") or "roles";
+   * RBAC permissions from the "permissions" claim. A token with neither is treated as a viewer.
+   * @param token - Auth0 access token (JWT)
+   */
+  private readAccess(token: string): UserAccess {
+    const claims = this.decodeToken(token);
+    const config = this.appConfig.config;
+    const rolesClaim = config.rolesClaim || `${config.auth0.audience.replace(/\/+$/, '')}/roles`;
+
+    const roleNames = this.getStrings(claims[rolesClaim])
+      .concat(this.getStrings(claims['roles']))
+      .map(role => role.toLowerCase());
+    const roles = (Object.keys(ROLE_PERMISSIONS) as UserRole[]).filter(role => roleNames.includes(role));
+
+    const permissionNames = this.getStrings(claims['permissions']);
+    const permissions = ALL_PERMISSIONS.filter(permission => permissionNames.includes(permission));
+
+    return this.getAccess(roles, permissions);
+  }
+
+  private getAccess(roles: UserRole[], permissions: Permission[]): UserAccess {
+    if (roles.length === 0 && permissions.length === 0) {
+      roles = ['viewer'];
+    }
+    const granted = new Set<Permission>(permissions);
+    roles.forEach(role => ROLE_PERMISSIONS[role].forEach(permission => granted.add(permission)));
+    return {
+      isAuthenticated: true,
+      roles,
+      permissions: ALL_PERMISSIONS.filter(permission => granted.has(permission))
+    };
+  }
+
+  // JWT payload (claims are only read for the UI - the API enforces them)
+  private decodeToken(token: string): Record<string, unknown> {
+    try {
+      const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+      const claims: unknown = JSON.parse(new TextDecoder().decode(Uint8Array.from(atob(payload), char => char.charCodeAt(0))));
+      return claims && typeof claims === 'object' && !Array.isArray(claims) ? claims as Record<string, unknown> : {};
+    } catch {
+      return {};
+    }
+  }
+
+  // String entries of an array claim - anything else in the token is ignored
+  private getStrings(claim: unknown): string[] {
+    return Array.isArray(claim) ? claim.filter((value): value is string => typeof value === 'string') : [];
+  }
+}
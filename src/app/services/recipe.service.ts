@@ -0,0 +1,181 @@
+import { Injectable } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { Food } from '../models/food.model';
+import { NUTRIENT_FIELDS } from '../models/nutrition-fields';
+import { Recipe, RecipeIngredient, RecipeSummary } from '../models/recipe.model';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class RecipeService {
+  private readonly STORAGE_KEY = 'foods-tool.recipes';
+
+  private changedSubject = new Subject<void>();
+
+  // Recipe being built (not saved until saveCurrent() is called)
+  current: Recipe = this.newRecipe();
+
+  // Emits whenever the current recipe is replaced or its ingredients change
+  readonly changed$: Observable<void> = this.changedSubject.asObservable();
+
+  newRecipe(): Recipe {
+    const now = new Date().toISOString();
+    return {
+      id: `recipe-${Date.now()}`,
+      name: '',
+      ingredients: [],
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  startNew(): void {
+    this.current = this.newRecipe();
+    this.changedSubject.next();
+  }
+
+  /**
+   * Add a food to the current recipe (adds grams if it is already there)
+   * @param food - Food with per-100g nutritionFacts
+   * @param grams - Amount in grams (defaults to one serving, or 100g)
+   */
+  addFood(food: Food, grams?: number): void {
+    const amount = grams ?? food.nutritionFacts?.servingSizeG ?? 100;
+    const existing = this.current.ingredients.find(i => i.foodId === food.id);
+    if (existing) {
+      existing.grams = Math.round((existing.grams + amount) * 10) / 10;
+    } else {
+      this.current.ingredients.push({
+        foodId: food.id,
+        description: food.description,
+        grams: amount,
+        glycemicIndex: food.glycemicIndex ?? null,
+        yehApproved: food.yehApproved ?? false,
+        nutritionFacts: food.nutritionFacts ?? null
+      });
+    }
+    this.changedSubject.next();
+  }
+
+  updateGrams(foodId: number, grams: number): void {
+    const ingredient = this.current.ingredients.find(i => i.foodId === foodId);
+    if (ingredient) {
+      ingredient.grams = Number.isFinite(grams) && grams > 0 ? grams : 0;
+      this.changedSubject.next();
+    }
+  }
+
+  removeIngredient(foodId: number): void {
+    this.current.ingredients = this.current.ingredients.filter(i => i.foodId !== foodId);
+    this.changedSubject.next();
+  }
+
+  /**
+   * Combine per-100g nutrition from every ingredient, scaled by its grams
+   * Glycemic load = sum of GI × available carbs (total carbs - fiber) / 100
+   * @param recipe - Recipe to summarize
+   */
+  summarize(recipe: Recipe): RecipeSummary {
+    const nutrients: { [key: string]: number } = {};
+    NUTRIENT_FIELDS.forEach(field => nutrients[field.key] = 0);
+
+    let totalGrams = 0;
+    let availableCarbsG = 0;
+    let glycemicLoad = 0;
+    let carbsWithGi = 0;
+    const missingGlycemicIndex: RecipeIngredient[] = [];
+    const missingNutritionFacts: RecipeIngredient[] = [];
+
+    recipe.ingredients.forEach(ingredient => {
+      const grams = Math.max(ingredient.grams || 0, 0);
+      totalGrams += grams;
+
+      const nf = ingredient.nutritionFacts;
+      if (!nf) {
+        missingNutritionFacts.push(ingredient);
+        return;
+      }
+
+      const factor = grams / 100;
+      NUTRIENT_FIELDS.forEach(field => {
+        const value = nf[field.key];
+        if (typeof value === 'number') {
+          nutrients[field.key] += value * factor;
+        }
+      });
+
+      const carbs = Math.max((nf.totalCarbohydrateG || 0) - (nf.dietaryFiberG || 0), 0) * factor;
+      availableCarbsG += carbs;
+      if (carbs > 0) {
+        if (ingredient.glycemicIndex === null || ingredient.glycemicIndex === undefined) {
+          missingGlycemicIndex.push(ingredient);
+        } else {
+          glycemicLoad += ingredient.glycemicIndex * carbs / 100;
+          carbsWithGi += carbs;
+        }
+      }
+    });
+
+    Object.keys(nutrients).forEach(key => nutrients[key] = Math.round(nutrients[key] * 10) / 10);
+
+    return {
+      totalGrams: Math.round(totalGrams * 10) / 10,
+      nutrients,
+      availableCarbsG: Math.round(availableCarbsG * 10) / 10,
+      glycemicLoad: recipe.ingredients.length > 0 ? Math.round(glycemicLoad * 10) / 10 : null,
+      // Carb-weighted meal GI
+      glycemicIndex: carbsWithGi > 0 ? Math.round(glycemicLoad * 100 / carbsWithGi) : null,
+      missingGlycemicIndex,
+      missingNutritionFacts,
+      notYehApproved: recipe.ingredients.filter(i => !i.yehApproved)
+    };
+  }
+
+  // Standard GL bands: low ≤ 10, medium 11-19, high ≥ 20
+  getGlycemicLoadCategory(glycemicLoad: number | null): 'low' | 'medium' | 'high' | null {
+    if (glycemicLoad === null) {
+      return null;
+    }
+    if (glycemicLoad <= 10) {
+      return 'low';
+    }
+    return glycemicLoad < 20 ? 'medium' : 'high';
+  }
+
+  // ========================================
+  // LOCAL PERSISTENCE
+  // ========================================
+
+  getSavedRecipes(): Recipe[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const recipes = stored ? JSON.parse(stored) : [];
+      return Array.isArray(recipes) ? recipes : [];
+    } catch (error) {
+      console.error('Failed to read saved recipes:', error);
+      return [];
+    }
+  }
+
+  // Save (insert or replace) the current recipe
+  saveCurrent(): void {
+    this.current.updatedAt = new Date().toISOString();
+    const recipes = this.getSavedRecipes().filter(r => r.id !== this.current.id);
+    recipes.unshift(JSON.parse(JSON.stringify(this.current)));
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(recipes));
+  }
+
+  open(recipeId: string): boolean {
+    const recipe = this.getSavedRecipes().find(r => r.id === recipeId);
+    if (recipe) {
+      this.current = recipe;
+      this.changedSubject.next();
+    }
+    return !!recipe;
+  }
+
+  delete(recipeId: string): void {
+    const recipes = this.getSavedRecipes().filter(r => r.id !== recipeId);
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(recipes));
+  }
+}
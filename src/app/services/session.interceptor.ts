@@ -0,0 +1,50 @@
+import { Injectable } from '@angular/core';
+import { HttpErrorResponse, HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { catchError, switchMap } from 'rxjs/operators';
+import { AppConfigService } from './app-config.service';
+import { SessionService } from './session.service';
+
+// Auth0 errors meaning the token can't be renewed without the user logging in again
+const LOGIN_REQUIRED_ERRORS = ['login_required', 'consent_required', 'missing_refresh_token', 'invalid_grant'];
+
+/**
+ * Recovers authenticated requests from an expired session
+ * A 401 (or Auth0 failing to supply a token) gets a silent token refresh and one retry; when Auth0 needs a new
+ * login the user is asked to log in again in a popup first. Otherwise the original error is passed on.
+ */
+@Injectable()
+export class SessionInterceptor implements HttpInterceptor {
+
+  constructor(
+    private session: SessionService,
+    private appConfig: AppConfigService
+  ) {}
+
+  intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    if (!this.appConfig.isAuthenticatedUrl(request.url)) {
+      return next.handle(request);
+    }
+
+    return next.handle(request).pipe(
+      catchError(error => {
+        if (!this.isSessionExpired(error)) {
+          return throwError(() => error);
+        }
+        // The retry goes back through AuthHttpInterceptor, which attaches the new token
+        return this.session.refreshToken().pipe(
+          catchError(() => this.session.reauthenticate()),
+          catchError(() => throwError(() => error)),
+          switchMap(() => next.handle(request))
+        );
+      })
+    );
+  }
+
+  private isSessionExpired(error: unknown): boolean {
+    if (error instanceof HttpErrorResponse) {
+      return error.status === 401;
+    }
+    return LOGIN_REQUIRED_ERRORS.includes((error as { error?: string } | null)?.error ?? '');
+  }
+}
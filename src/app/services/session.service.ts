@@ -0,0 +1,73 @@
+import { Injectable } from '@angular/core';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { AuthService } from '@auth0/auth0-angular';
+import { Observable } from 'rxjs';
+import { finalize, map, share } from 'rxjs/operators';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionService {
+  // In-flight refresh/login, shared by every request that hit an expired session at the same time
+  private refreshing$: Observable<void> | null = null;
+  private reauthenticating$: Observable<void> | null = null;
+
+  constructor(
+    private auth: AuthService,
+    private snackBar: MatSnackBar
+  ) {}
+
+  /**
+   * Get a new access token without user interaction
+   * Errors when Auth0 needs the user to log in again
+   */
+  refreshToken(): Observable<void> {
+    if (!this.refreshing$) {
+      this.refreshing$ = this.auth.getAccessTokenSilently({ cacheMode: 'off' }).pipe(
+        map(() => undefined),
+        finalize(() => this.refreshing$ = null),
+        share()
+      );
+    }
+    return this.refreshing$;
+  }
+
+  /**
+   * Ask the user to log in again in a popup, so the page (unsaved edits, selected images) stays as it is
+   * The popup is opened from the snackbar action because browsers block popups that aren't user-initiated
+   * Errors when the user dismisses the prompt or the login fails
+   */
+  reauthenticate(): Observable<void> {
+    if (!this.reauthenticating$) {
+      this.reauthenticating$ = new Observable<void>(subscriber => {
+        const ref = this.snackBar.open('Your session has expired. Log in again to continue - your changes are kept.', 'Log in', {
+          horizontalPosition: 'center',
+          verticalPosition: 'top',
+          panelClass: ['error-snackbar'],
+          politeness: 'assertive'
+        });
+        let loggingIn = false;
+
+        ref.onAction().subscribe(() => {
+          loggingIn = true;
+          this.auth.loginWithPopup().subscribe({
+            complete: () => {
+              subscriber.next();
+              subscriber.complete();
+            },
+            error: error => subscriber.error(error)
+          });
+        });
+        ref.afterDismissed().subscribe(() => {
+          if (!loggingIn) {
+            subscriber.error(new Error('Login cancelled'));
+          }
+        });
+      }).pipe(
+        finalize(() => this.reauthenticating$ = null),
+        share()
+      );
+    }
+    return this.reauthenticating$;
+  }
+}
@@ -1,58 +1,97 @@
 import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
-import { environment } from '../../environments/environment';
-import { Food, FoodMetadataUpdate } from '../models/food.model';
-
-interface NutritionUploadResponse {
-  success: boolean;
-  cdn_url: string;
-  description: string;
-  status: string;
-}
-
-interface ProductUploadResponse {
-  success: boolean;
-  cdn_url: string;
-  thumbnail_url: string;
-  food_id: number;
-}
+import {
+  HttpClient, HttpErrorResponse, HttpEvent, HttpEventType, HttpHeaders, HttpResponse
+} from '@angular/common/http';
+import { Observable, OperatorFunction, defer } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
+import { AppConfigService } from './app-config.service';
+import { Food, FoodMetadataUpdate, NutritionFactsUpdate } from '../models/food.model';
+import {
+  FoodHistoryEntry,
+  FoodHistoryResponse,
+  FoodSearchResponse,
+  HealthResponse,
+  ImageStatusResponse,
+  ImageUrlsResponse,
+  NutritionUploadResponse,
+  ProductUploadResponse,
+  UploadEvent
+} from '../models/api.model';
+import {
+  FOOD_HISTORY_SCHEMA,
+  FOOD_SCHEMA,
+  FOOD_SEARCH_SCHEMA,
+  HEALTH_SCHEMA,
+  IMAGE_STATUS_SCHEMA,
+  IMAGE_URLS_SCHEMA,
+  validateResponse
+} from '../models/api-schemas';
 
 @Injectable({
   providedIn: 'root'
 })
 export class YehApiService {
-  private baseUrl = environment.apiUrl;
-
-  // Image API base URL (yeh-image on port 8081)
-  private imageApiUrl = environment.apiUrl.replace(':8080', ':8081').replace('/api', '');
+  constructor(
+    private http: HttpClient,
+    private appConfig: AppConfigService
+  ) { }
+
+  // Foods API base URL (yeh-api)
+  private get baseUrl(): string {
+    return this.appConfig.apiUrl;
+  }
 
-  constructor(private http: HttpClient) { }
+  // Image API base URL (yeh-image)
+  private get imageApiUrl(): string {
+    return this.appConfig.imageApiUrl;
+  }
 
   // ========================================
   // FOODS API ENDPOINTS (yeh-api)
   // ========================================
 
-  searchFoods(query: string, limit?: number): Observable<any> {
+  // Responses are checked against their schema; a malformed payload errors with ApiResponseError
+
+  searchFoods(query: string, limit?: number): Observable<FoodSearchResponse> {
     let url = `${this.baseUrl}/foods/search?query=${encodeURIComponent(query)}`;
     if (limit !== undefined && limit !== null) {
       url += `&limit=${limit}`;
     }
-    return this.http.get<any>(url);
+    return this.http.get<unknown>(url).pipe(
+      map(body => validateResponse<FoodSearchResponse>(FOOD_SEARCH_SCHEMA, body, 'GET /foods/search'))
+    );
   }
 
   // Get all YEH Approved foods (optionally filtered by query)
   // Uses /api/foods/search/all/yehapproved endpoint
-  searchYehApprovedFoods(limit?: number): Observable<any> {
+  searchYehApprovedFoods(limit?: number): Observable<FoodSearchResponse> {
     let url = `${this.baseUrl}/foods/search/all/yehapproved`;
     if (limit !== undefined && limit !== null) {
       url += `?limit=${limit}`;
     }
-    return this.http.get<any>(url);
+    return this.http.get<unknown>(url).pipe(
+      map(body => validateResponse<FoodSearchResponse>(FOOD_SEARCH_SCHEMA, body, 'GET /foods/search/all/yehapproved'))
+    );
+  }
+
+  // Get a single food by its SQL FoodID
+  // Uses GET /api/foods/{id}
+  getFoodById(foodId: number): Observable<Food> {
+    return this.http.get<unknown>(`${this.baseUrl}/foods/${foodId}`, { observe: 'response' }).pipe(
+      map(response => this.withEtag(response, 'GET /foods/{id}'))
+    );
+  }
+
+  // Validated food with the ETag header kept on it (falls back to an etag in the body)
+  private withEtag(response: HttpResponse<unknown>, endpoint: string): Food {
+    const food = validateResponse<Food>(FOOD_SCHEMA, response.body, endpoint);
+    const etag = response.headers.get('ETag');
+    return etag ? { ...food, etag } : food;
   }
 
-  refreshFood(query: string): Observable<any> {
-    return this.http.get<any>(`${this.baseUrl}/foods/search?query=${encodeURIComponent(query)}`);
+  // 412 Precondition Failed (If-Match didn't match) or 409 Conflict - the food changed since it was loaded
+  isConflict(error: HttpErrorResponse): boolean {
+    return error.status === 412 || error.status === 409;
   }
 
   hasBrandLinks(food: any): boolean {
@@ -69,9 +108,29 @@ export class YehApiService {
   }
 
   // Update food metadata (ShortDescription, GlycemicIndex, GlycemicLoad)
-  // Uses PATCH /api/foods/{id}
-  updateFoodMetadata(foodId: number, update: FoodMetadataUpdate): Observable<Food> {
-    return this.http.patch<Food>(`${this.baseUrl}/foods/${foodId}`, update);
+  // Uses PATCH /api/foods/{id} with If-Match when the loaded version is known
+  updateFoodMetadata(foodId: number, update: FoodMetadataUpdate, etag?: string): Observable<Food> {
+    const headers = etag ? new HttpHeaders({ 'If-Match': etag }) : undefined;
+    return this.http.patch<unknown>(`${this.baseUrl}/foods/${foodId}`, update, { headers, observe: 'response' }).pipe(
+      map(response => this.withEtag(response, 'PATCH /foods/{id}'))
+    );
+  }
+
+  // Server-side metadata change history for a food (not available on every deployment)
+  // Uses GET /api/foods/{id}/history
+  getFoodHistory(foodId: number): Observable<FoodHistoryEntry[]> {
+    return this.http.get<unknown>(`${this.baseUrl}/foods/${foodId}/history`).pipe(
+      map(body => validateResponse<FoodHistoryResponse>(FOOD_HISTORY_SCHEMA, body, 'GET /foods/{id}/history')),
+      map(response => Array.isArray(response) ? response : response.history)
+    );
+  }
+
+  // Update individual NutritionFacts fields (per 100g values, serving size, servings per container)
+  // Uses PATCH /api/foods/{id}/nutritionfacts
+  updateNutritionFacts(foodId: number, update: NutritionFactsUpdate): Observable<Food> {
+    return this.http.patch<unknown>(`${this.baseUrl}/foods/${foodId}/nutritionfacts`, update, { observe: 'response' }).pipe(
+      map(response => this.withEtag(response, 'PATCH /foods/{id}/nutritionfacts'))
+    );
   }
 
   // ========================================
@@ -84,7 +143,7 @@ export class YehApiService {
     options?: {
       ingredientsImage?: File;
     }
-  ): Observable<NutritionUploadResponse> {
+  ): Observable<UploadEvent<NutritionUploadResponse>> {
     const formData = new FormData();
     formData.append('foodId', foodId.toString());
     formData.append('nutritionImage', nutritionImage);
@@ -95,34 +154,65 @@ export class YehApiService {
 
     return this.http.post<NutritionUploadResponse>(
       `${this.imageApiUrl}/api/image/upload/nutrition`,
-      formData
-    );
+      formData,
+      { reportProgress: true, observe: 'events' }
+    ).pipe(this.toUploadEvents());
   }
 
-  uploadProductImage(foodId: number, image: File): Observable<ProductUploadResponse> {
+  uploadProductImage(foodId: number, image: File): Observable<UploadEvent<ProductUploadResponse>> {
     const formData = new FormData();
     formData.append('foodId', foodId.toString());
     formData.append('image', image);
 
     return this.http.post<ProductUploadResponse>(
       `${this.imageApiUrl}/api/image/upload/product`,
-      formData
-    );
+      formData,
+      { reportProgress: true, observe: 'events' }
+    ).pipe(this.toUploadEvents());
+  }
+
+  // Byte progress while the form is sent, then the response (other HttpEvents are dropped)
+  // Unsubscribing aborts the request, which is how uploads are cancelled
+  private toUploadEvents<T>(): OperatorFunction<HttpEvent<T>, UploadEvent<T>> {
+    return source => defer(() => {
+      let loaded = 0;
+      let total: number | null = null;
+      return source.pipe(
+        map(event => {
+          if (event.type === HttpEventType.UploadProgress) {
+            loaded = event.loaded;
+            total = event.total ?? null;
+            return { loaded, total, progress: total ? Math.round(loaded / total * 100) : 0, response: null };
+          }
+          if (event.type === HttpEventType.Response) {
+            return { loaded, total, progress: 100, response: event.body };
+          }
+          return null;
+        }),
+        filter((event): event is UploadEvent<T> => event !== null)
+      );
+    });
   }
 
-  getImageUrls(description: string, type?: 'product' | 'nutrition'): Observable<any> {
+  getImageUrls(description: string, type?: 'product' | 'nutrition'): Observable<ImageUrlsResponse> {
     let url = `${this.imageApiUrl}/api/image/url/?description=${encodeURIComponent(description)}`;
     if (type) {
       url += `&type=${type}`;
     }
-    return this.http.get<any>(url);
+    return this.http.get<unknown>(url).pipe(
+      map(body => validateResponse<ImageUrlsResponse>(IMAGE_URLS_SCHEMA, body, 'GET /image/url'))
+    );
   }
 
-  getImageProcessingStatus(): Observable<any> {
-    return this.http.get<any>(`${this.imageApiUrl}/api/image/status`);
+  getImageProcessingStatus(): Observable<ImageStatusResponse> {
+    return this.http.get<unknown>(`${this.imageApiUrl}/api/image/status`).pipe(
+      map(body => validateResponse<ImageStatusResponse>(IMAGE_STATUS_SCHEMA, body, 'GET /image/status'))
+    );
   }
 
-  getImageApiHealth(): Observable<any> {
-    return this.http.get<any>(`${this.imageApiUrl}/api/image/health`);
+  getImageApiHealth(): Observable<HealthResponse> {
+    return this.http.get<unknown>(`${this.imageApiUrl}/api/image/health`).pipe(
+      map(body => validateResponse<HealthResponse>(HEALTH_SCHEMA, body, 'GET /image/health'))
+    );
   }
 }
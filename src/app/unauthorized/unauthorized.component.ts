@@ -0,0 +1,12 @@
+import { Component } from '@angular/core';
+import { PermissionService } from '../services/permission.service';
+
+// Shown by permissionGuard when the signed-in user's role can't open a page
+@Component({
+  selector: 'app-unauthorized',
+  templateUrl: './unauthorized.component.html',
+  styleUrls: ['./unauthorized.component.scss']
+})
+export class UnauthorizedComponent {
+  constructor(public permissions: PermissionService) {}
+}
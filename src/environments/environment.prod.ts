@@ -1,24 +1,14 @@
 // This file can be replaced during build by using the `fileReplacements` array.
 // `ng build --prod` replaces `environment.ts` with `environment.prod.ts`.
 // The list of file replacements can be found in `angular.json`.
-//declare const AUTH0_DOMAIN: string;
-//declare const AUTH0_CLIENT_ID: string;
-
-declare var process: {
-  env: {
-    [key: string]: string | undefined
-  }
-};
-
+//
+// API URLs and Auth0 settings are not build settings - they are loaded at startup from configUrl,
+// which each deployment provides (see write-config.js and manifests/configmap-*.yml).
 
 export const environment = {
-  production: false,
-  auth0: {
-    domain: '___AUTH0_DOMAIN___',    // Placeholder
-    clientId: '___AUTH0_CLIENT_ID___', // Placeholder
-    redirectUri: window.location.origin,
-  },
-  apiUrl: 'https://yehapi.cloudcomputingassociates.net/api'
+  production: true,
+  configUrl: 'assets/config.json',
+  localConfigUrl: ''
 };
 
 /*
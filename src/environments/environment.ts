@@ -1,15 +1,16 @@
 // This file can be replaced during build by using the `fileReplacements` array.
 // `ng build --prod` replaces `environment.ts` with `environment.prod.ts`.
 // The list of file replacements can be found in `angular.json`.
+//
+// API URLs and Auth0 settings are not build settings - they are loaded at startup from configUrl,
+// with the git-ignored localConfigUrl (if it exists) merged over it.
 
 export const environment = {
   production: false,
-  auth0: {
-    domain: '',
-    clientId: '',
-    redirectUri: window.location.origin,
-  },
-  apiUrl: 'http://localhost:8080/api'
+  // Local backends (yeh-api on :8080, yeh-image on :8081)
+  configUrl: 'assets/config.dev.json',
+  // Your development Auth0 application - not committed
+  localConfigUrl: 'assets/config.local.json'
 };
 
 /*
@@ -0,0 +1,37 @@
+const fs = require('fs');
+const path = require('path');
+
+// Write dist/assets/config.json for this deployment from environment variables
+// Anything not set keeps the value from src/assets/config.json
+const configPath = path.join('dist', 'assets', 'config.json');
+
+if (!fs.existsSync(configPath)) {
+  console.error(`Could not find ${configPath} - run ng build first`);
+  process.exit(1);
+}
+
+const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+const env = process.env;
+
+config.apiUrl = env.API_URL || config.apiUrl;
+config.imageApiUrl = env.IMAGE_API_URL || config.imageApiUrl;
+config.auth0.domain = env.AUTH0_DOMAIN || config.auth0.domain;
+config.auth0.clientId = env.AUTH0_CLIENT_ID || config.auth0.clientId;
+config.auth0.audience = env.AUTH0_AUDIENCE || config.auth0.audience;
+if (env.AUTH0_ROLES_CLAIM) {
+  config.rolesClaim = env.AUTH0_ROLES_CLAIM;
+}
+if (env.AUTH_ALLOWED_LIST) {
+  // Comma-separated URL patterns, on top of the API_URL and IMAGE_API_URL origins
+  config.allowedList = env.AUTH_ALLOWED_LIST.split(',').map(url => url.trim()).filter(url => url);
+}
+
+// The shipped config only has placeholders for the Auth0 application - fail the build rather than the login
+const missing = ['domain', 'clientId'].filter(key => !config.auth0[key] || config.auth0[key].startsWith('___'));
+if (missing.length > 0) {
+  console.error(`Auth0 ${missing.join(' and ')} not set - provide AUTH0_DOMAIN and AUTH0_CLIENT_ID`);
+  process.exit(1);
+}
+
+fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+console.log(`Runtime config written to ${configPath}`);